@@ -0,0 +1,150 @@
+// file: server/AccountStore.ts
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { AccountRecord, Storage, TokenRecord } from './storage';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export interface Account {
+  // Stable id, used as the player id whenever this account plays
+  id: string;
+  username: string;
+  createdAt: number;
+}
+
+// Result of a successful login: the account and a session token the client keeps for auto-login
+export interface AuthResult {
+  account: Account;
+  token: string;
+}
+
+export class AccountError extends Error {}
+
+/**
+ * Player accounts with scrypt-hashed passwords and session tokens.
+ * Kept in the server's Storage, so they are written along with everything else.
+ */
+export class AccountStore {
+  private storage: Storage;
+  private tokenLifetime: number;
+
+  constructor(storage: Storage, tokenLifetime: number) {
+    this.storage = storage;
+    this.tokenLifetime = tokenLifetime;
+  }
+
+  /**
+   * Create an account and log it in. Usernames are unique regardless of case.
+   */
+  public async register(username: string, password: string): Promise<AuthResult> {
+    const name = username.trim();
+    if (this.storage.accounts.findByUsername(name)) {
+      throw new AccountError(`Username "${name}" is already registered`);
+    }
+
+    const salt = randomBytes(SALT_LENGTH);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+    // Checked again: another registration may have finished while hashing
+    if (this.storage.accounts.findByUsername(name)) {
+      throw new AccountError(`Username "${name}" is already registered`);
+    }
+
+    const account: AccountRecord = {
+      id: randomUUID(),
+      username: name,
+      createdAt: Date.now(),
+      passwordHash: hash.toString('hex'),
+      salt: salt.toString('hex')
+    };
+    this.storage.accounts.save(account);
+
+    return { account: this.toAccount(account), token: this.issueToken(account.id) };
+  }
+
+  /**
+   * Check a username and password and start a new session
+   */
+  public async login(username: string, password: string): Promise<AuthResult> {
+    const account = this.storage.accounts.findByUsername(username.trim());
+    // Same message either way, so logins can't be used to find out which usernames exist
+    const invalid = new AccountError('Invalid username or password');
+    if (!account) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await scryptAsync(password, randomBytes(SALT_LENGTH), KEY_LENGTH);
+      throw invalid;
+    }
+
+    const hash = await scryptAsync(password, Buffer.from(account.salt, 'hex'), KEY_LENGTH);
+    if (!timingSafeEqual(hash, Buffer.from(account.passwordHash, 'hex'))) {
+      throw invalid;
+    }
+
+    return { account: this.toAccount(account), token: this.issueToken(account.id) };
+  }
+
+  /**
+   * Get the account a session token belongs to, or null if the token is unknown or expired
+   */
+  public authenticate(token: string): Account | null {
+    const stored = this.storage.tokens.get(this.hashToken(token));
+    if (!stored) return null;
+
+    if (stored.expiresAt <= Date.now()) {
+      this.storage.tokens.delete(stored.tokenHash);
+      return null;
+    }
+
+    const account = this.storage.accounts.get(stored.accountId);
+    return account ? this.toAccount(account) : null;
+  }
+
+  /**
+   * Swap a valid session token for a fresh one, extending the session
+   */
+  public refresh(token: string): AuthResult | null {
+    const account = this.authenticate(token);
+    if (!account) return null;
+
+    this.storage.tokens.delete(this.hashToken(token));
+    return { account, token: this.issueToken(account.id) };
+  }
+
+  public revoke(token: string): void {
+    this.storage.tokens.delete(this.hashToken(token));
+  }
+
+  public isUsernameRegistered(username: string): boolean {
+    return !!this.storage.accounts.findByUsername(username.trim());
+  }
+
+  /**
+   * Forget session tokens that can no longer be used; returns how many were deleted
+   */
+  public pruneExpiredTokens(): number {
+    return this.storage.tokens.deleteExpired(Date.now());
+  }
+
+  private issueToken(accountId: string): string {
+    const token = randomBytes(32).toString('hex');
+    const stored: TokenRecord = {
+      tokenHash: this.hashToken(token),
+      accountId,
+      expiresAt: Date.now() + this.tokenLifetime
+    };
+
+    this.storage.tokens.save(stored);
+    return token;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private toAccount({ id, username, createdAt }: AccountRecord): Account {
+    return { id, username, createdAt };
+  }
+}
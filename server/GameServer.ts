@@ -0,0 +1,930 @@
+// file: server/GameServer.ts
+import { randomBytes, randomUUID } from 'crypto';
+import { ChunkDiff, Position, WorldChunk } from '../src/utils/game';
+import { createEmptyDiff } from '../src/utils/chunkSync';
+import {
+  CAPABILITIES,
+  Capability,
+  ClientEventName,
+  ClientPayload,
+  ServerEventName,
+  ServerPayload,
+  ChatMessage,
+  ChunkCoordinates,
+  JoinRejectReason,
+  JoinRequest,
+  MoveRequest,
+  PROTOCOL_VERSION,
+  PlayerState,
+  ServerStatusMessage,
+  WorldInfo,
+  isClientEventName,
+  validateClientMessage
+} from '../src/utils/protocol';
+import { CodecError, ServerCodec, isBinaryPayload, toBytes } from '../src/utils/binaryCodec';
+import { AccountError, AccountStore, AuthResult } from './AccountStore';
+import { GameWorld } from './GameWorld';
+import { ServerConfig, WorldDefinition } from './config';
+import { ClientConnection } from './connections/ClientConnection';
+import { Storage, createStorage } from './storage';
+
+// Chunks this many beyond the render distance may still be requested, for clients a little ahead of the server
+const CHUNK_REQUEST_MARGIN = 1;
+
+// State for a player in a world. Outlives its connection for a while so the client can resume.
+interface PlayerSession {
+  // Null while the client is disconnected and the session waits for a resume
+  connection: ClientConnection | null;
+  playerId: string;
+  worldId: string;
+  username: string;
+  // Guests get a new player id every session, so there is nothing to save for them
+  guest: boolean;
+  // Start of the play time not yet added to the player's profile; null while suspended
+  playingSince: number | null;
+  resumeToken: string;
+  // Versions of the chunks delivered to this client, by chunk key
+  sentChunks: Map<string, number>;
+  // Chunk the player was in at the last movement update
+  currentChunk: string;
+  // Sequence number of the last applied move request
+  lastSequence: number;
+  // Players in range that this client knows about. Symmetric: if A sees B, B sees A.
+  visiblePlayers: Set<string>;
+  // Capabilities enabled for the current connection
+  capabilities: Set<Capability>;
+  // Binary encoding state for the current connection, null when messages are JSON only
+  codec: ServerCodec | null;
+  disconnectedAt: number | null;
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Game server implementing the protocol spoken by MultiplayerClient.
+ * Transport-agnostic: socket.io, WebSocket and in-memory clients are all added as ClientConnections.
+ */
+export class GameServer {
+  private config: ServerConfig;
+  private accounts: AccountStore;
+  private storage: Storage;
+  private worlds: Map<string, GameWorld> = new Map();
+  private connections: Map<string, ClientConnection> = new Map();
+  // Sessions by player id, including suspended ones
+  private sessions: Map<string, PlayerSession> = new Map();
+  // Active sessions by connection id
+  private connectionSessions: Map<string, PlayerSession> = new Map();
+  // When each connection last sent anything, for the idle timeout
+  private lastActivity: Map<string, number> = new Map();
+  private heartbeatTimer: ReturnType<typeof setInterval>;
+  private saveTimer: ReturnType<typeof setInterval>;
+
+  // Handlers for each client event, called with an already validated payload
+  private clientMessageHandlers: {
+    [E in ClientEventName]: (connection: ClientConnection, payload: ClientPayload<E>) => void
+  } = {
+    'player:join': (connection, data) => this.handleJoin(connection, data),
+    'player:move': (connection, data) => this.handleMove(connection, data),
+    'chat:message': (connection, message) => this.handleChatMessage(connection, message),
+    'player:leave': (connection) => this.handleLeave(connection),
+    'time:ping': (connection, data) => connection.send('time:pong', { clientTime: data.clientTime, serverTime: Date.now() }),
+    // Only keeps the connection from timing out, which handleMessage already took care of
+    'heartbeat': () => {},
+    'world:request-chunks': (connection, data) => this.handleChunkRequest(connection, data.chunks),
+    'world:resync': (connection, data) => this.handleResync(connection, data.chunks),
+    'worlds:list': (connection) => connection.send('worlds:list', { worlds: this.getWorldList() }),
+    'server:status': (connection) => connection.send('server:status', this.getStatus()),
+    'account:register': (connection, data) => this.handleAuth(connection, this.accounts.register(data.username, data.password)),
+    'account:login': (connection, data) => this.handleAuth(connection, this.accounts.login(data.username, data.password)),
+    'account:resume': (connection, data) => this.handleAccountResume(connection, data.token),
+    'account:logout': (connection, data) => {
+      this.accounts.revoke(data.token);
+      connection.send('account:logout', {});
+    }
+  };
+
+  constructor(
+    config: ServerConfig,
+    storage: Storage = createStorage(config),
+    accounts: AccountStore = new AccountStore(storage, config.authTokenLifetime)
+  ) {
+    this.config = config;
+    this.accounts = accounts;
+    this.storage = storage;
+
+    // Worlds live for the whole lifetime of the server, even while empty
+    config.worlds.forEach(definition => {
+      this.worlds.set(definition.id, this.loadWorld(definition));
+      console.log(`[GameServer] Hosting world "${definition.id}" (${definition.name}, seed ${definition.config.seed})`);
+    });
+
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), config.heartbeatInterval);
+    this.saveTimer = setInterval(() => {
+      this.save();
+      this.storage.flush().catch(error => console.error('[GameServer] Writing storage failed:', error));
+    }, config.saveInterval);
+  }
+
+  /**
+   * Describe every hosted world, in the order they are configured
+   */
+  public getWorldList(): WorldInfo[] {
+    return Array.from(this.worlds.values()).map(world => world.getInfo());
+  }
+
+  /**
+   * Describe the server for the client's server browser
+   */
+  public getStatus(): ServerStatusMessage {
+    const worlds = this.getWorldList();
+
+    return {
+      name: this.config.name,
+      motd: this.config.motd,
+      version: this.config.version,
+      playerCount: worlds.reduce((total, world) => total + world.playerCount, 0),
+      maxPlayers: worlds.reduce((total, world) => total + world.maxPlayers, 0)
+    };
+  }
+
+  /**
+   * Start serving a newly connected client
+   */
+  public addConnection(connection: ClientConnection): void {
+    console.log(`[GameServer] Client connected: ${connection.id}`);
+
+    this.connections.set(connection.id, connection);
+    this.lastActivity.set(connection.id, Date.now());
+    connection.onMessage((event, payload) => this.handleMessage(connection, event, payload));
+    connection.onClose((reason) => this.handleDisconnect(connection, reason));
+  }
+
+  /**
+   * Change a chunk of a world and send the new version to every client that has the chunk
+   */
+  public modifyChunk(worldId: string, chunkX: number, chunkY: number, change: ChunkDiff): void {
+    const world = this.worlds.get(worldId);
+    if (!world || !world.isChunkInWorld(chunkX, chunkY)) return;
+
+    world.modifyChunk(chunkX, chunkY, change);
+    const chunk = world.getChunk(chunkX, chunkY);
+    const key = world.getChunkKey(chunkX, chunkY);
+
+    const { diff, version } = world.getChunkSync(chunkX, chunkY);
+    this.storage.chunks.save({ worldId, x: chunkX, y: chunkY, version, diff: diff ?? createEmptyDiff() });
+
+    this.sessions.forEach(session => {
+      if (session.worldId === worldId && session.sentChunks.has(key)) {
+        this.sendChunks(session, world, [chunk]);
+      }
+    });
+  }
+
+  /**
+   * Save everything, disconnect all clients and drop every session
+   */
+  public stop(): void {
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.saveTimer);
+    this.save();
+    this.storage.flushSync();
+    this.connections.forEach(connection => connection.close());
+    this.connections.clear();
+    this.lastActivity.clear();
+
+    this.sessions.forEach(session => {
+      if (session.expiryTimer) clearTimeout(session.expiryTimer);
+    });
+    this.sessions.clear();
+    this.connectionSessions.clear();
+  }
+
+  /**
+   * Validate an incoming client event and dispatch it, rejecting malformed payloads with an error message
+   */
+  private handleMessage(connection: ClientConnection, event: string, payload: unknown): void {
+    // Anything counts as a sign of life, not just heartbeats
+    this.lastActivity.set(connection.id, Date.now());
+
+    if (!isClientEventName(event)) {
+      this.sendError(connection, `Unknown event "${event}"`);
+      return;
+    }
+
+    const eventName = event as ClientEventName;
+
+    if (isBinaryPayload(payload)) {
+      const codec = this.connectionSessions.get(connection.id)?.codec;
+      if (!codec) {
+        this.sendError(connection, `Unexpected binary "${eventName}" message`);
+        return;
+      }
+
+      try {
+        payload = codec.decode(eventName, toBytes(payload));
+      } catch (error) {
+        const reason = error instanceof CodecError ? error.message : String(error);
+        this.sendError(connection, `Could not decode binary "${eventName}" message: ${reason}`);
+        return;
+      }
+    }
+
+    // Checked before validation: a client speaking another version may well send a differently shaped join
+    if (eventName === 'player:join') {
+      const { requestId, protocolVersion } = (payload ?? {}) as { requestId?: unknown; protocolVersion?: unknown };
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        this.rejectJoin(
+          connection,
+          typeof requestId === 'string' ? requestId : '',
+          'version-mismatch',
+          `This server speaks protocol version ${PROTOCOL_VERSION}, your client speaks version ${String(protocolVersion)}`
+        );
+        return;
+      }
+    }
+
+    const validationError = validateClientMessage(eventName, payload);
+    if (validationError) {
+      this.sendError(connection, `Invalid "${eventName}" message: ${validationError}`);
+      return;
+    }
+
+    (this.clientMessageHandlers[eventName] as (connection: ClientConnection, payload: unknown) => void)(
+      connection,
+      payload
+    );
+  }
+
+  /**
+   * Answer a registration or login with the account and a session token
+   */
+  private async handleAuth(connection: ClientConnection, result: Promise<AuthResult>): Promise<void> {
+    try {
+      const { account, token } = await result;
+      console.log(`[GameServer] ${account.username} (${account.id}) logged in from ${connection.id}`);
+      connection.send('account:authenticated', {
+        accountId: account.id,
+        username: account.username,
+        token,
+        lastWorldId: this.storage.players.get(account.id)?.lastWorldId
+      });
+    } catch (error) {
+      if (!(error instanceof AccountError)) {
+        console.error('[GameServer] Account operation failed:', error);
+      }
+      this.sendError(connection, error instanceof AccountError ? error.message : 'Account operation failed');
+    }
+  }
+
+  private handleAccountResume(connection: ClientConnection, token: string): void {
+    const result = this.accounts.refresh(token);
+    if (!result) {
+      this.sendError(connection, 'Your login has expired, please log in again');
+      return;
+    }
+
+    connection.send('account:authenticated', {
+      accountId: result.account.id,
+      username: result.account.username,
+      token: result.token,
+      lastWorldId: this.storage.players.get(result.account.id)?.lastWorldId
+    });
+  }
+
+  /**
+   * Handle a join request: resume the session the client's token belongs to if it is still valid,
+   * otherwise register a new player and send the initial world state.
+   * Players with an account always get the account id as player id and continue where they last left
+   * the world; guests get a fresh id and start at the spawn point.
+   * A session that still has a connection is taken over, since that connection may be half-open.
+   */
+  private handleJoin(connection: ClientConnection, data: JoinRequest): void {
+    const reject = (reason: JoinRejectReason, message: string) => this.rejectJoin(connection, data.requestId, reason, message);
+
+    if (this.connectionSessions.has(connection.id)) {
+      reject('already-joined', 'Already joined a world');
+      return;
+    }
+
+    const capabilities = new Set(CAPABILITIES.filter(capability =>
+      data.capabilities.includes(capability) && (capability !== 'binary-codec' || this.config.binaryCodec)
+    ));
+    const canResume = capabilities.has('session-resume');
+
+    if (data.resumeToken && canResume) {
+      const resumable = this.findResumableSession(data.resumeToken, data.worldId);
+      if (resumable) {
+        this.resumeSession(connection, resumable, data.requestId, capabilities);
+        return;
+      }
+      console.log(`[GameServer] Resume token from ${connection.id} is unknown or expired, starting a new session`);
+    }
+
+    let playerId: string;
+    let username: string;
+    const guest = !data.authToken;
+
+    if (data.authToken) {
+      const account = this.accounts.authenticate(data.authToken);
+      if (!account) {
+        reject('login-expired', 'Your login has expired, please log in again');
+        return;
+      }
+      playerId = account.id;
+      username = account.username;
+
+      // The account may still be in the game, e.g. after the page was reloaded
+      const existing = this.sessions.get(playerId);
+      if (existing && existing.worldId === data.worldId && canResume) {
+        // Taken over without the resume token, so by a new client (e.g. a reloaded page) that numbers its moves from 1 again
+        existing.lastSequence = 0;
+        this.resumeSession(connection, existing, data.requestId, capabilities);
+        return;
+      }
+      if (existing) {
+        this.dropReplacedConnection(existing);
+        this.removeSession(existing);
+      }
+    } else {
+      username = data.username.trim();
+      if (this.accounts.isUsernameRegistered(username)) {
+        reject('username-reserved', `"${username}" belongs to a registered account, please log in to use it`);
+        return;
+      }
+      playerId = `guest-${randomUUID()}`;
+    }
+
+    const worldId = data.worldId;
+
+    const world = this.worlds.get(worldId);
+    if (!world) {
+      reject('unknown-world', `Unknown world "${worldId}"`);
+      return;
+    }
+
+    if (world.isFull()) {
+      reject('world-full', `World "${world.getInfo().name}" is full`);
+      return;
+    }
+
+    if (world.isUsernameTaken(username)) {
+      reject('username-taken', `Username "${username}" is already taken in this world`);
+      return;
+    }
+
+    const savedLocation = guest ? null : this.storage.players.get(playerId)?.locations[worldId];
+    const player = world.addPlayer(playerId, username, savedLocation ?? undefined);
+    const session: PlayerSession = {
+      connection,
+      playerId: player.id,
+      worldId,
+      username,
+      guest,
+      playingSince: Date.now(),
+      resumeToken: this.createResumeToken(),
+      sentChunks: new Map(),
+      currentChunk: world.getChunkKeyAt(player.position),
+      lastSequence: 0,
+      visiblePlayers: new Set(),
+      capabilities,
+      codec: capabilities.has('binary-codec') ? new ServerCodec() : null,
+      disconnectedAt: null,
+      expiryTimer: null
+    };
+    this.sessions.set(player.id, session);
+    this.connectionSessions.set(connection.id, session);
+
+    console.log(
+      `[GameServer] ${username} (${player.id}) joined world "${worldId}"` +
+      (savedLocation ? ` at (${Math.round(player.position.x)}, ${Math.round(player.position.y)}), where they last left` : '')
+    );
+
+    connection.send('session:started', {
+      requestId: data.requestId,
+      playerId: player.id,
+      username,
+      resumeToken: session.resumeToken,
+      resumed: false,
+      world: world.getInfo(),
+      spawn: { position: player.position, direction: player.direction },
+      capabilities: Array.from(capabilities)
+    });
+
+    // Players in range learn about the new player, and the joining client gets them
+    const nearbySessions = this.getSessionsInRange(session, world, player.position);
+    nearbySessions.forEach(other => {
+      session.visiblePlayers.add(other.playerId);
+      other.visiblePlayers.add(session.playerId);
+      this.send(other, 'player:joined', { player });
+    });
+    connection.send('world:players', { players: this.getVisiblePlayers(session, world) });
+  }
+
+  /**
+   * Reattach a reconnecting client to its suspended session and bring it up to date
+   */
+  private resumeSession(
+    connection: ClientConnection,
+    session: PlayerSession,
+    requestId: string,
+    capabilities: Set<Capability>
+  ): void {
+    const world = this.worlds.get(session.worldId);
+    const player = world?.getPlayer(session.playerId);
+    if (!world || !player) {
+      this.dropReplacedConnection(session);
+      this.removeSession(session);
+      this.rejectJoin(connection, requestId, 'session-expired', 'Your session has expired, please join again');
+      return;
+    }
+
+    this.dropReplacedConnection(session);
+
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+
+    const disconnectedAt = session.disconnectedAt ?? Date.now();
+    session.connection = connection;
+    session.capabilities = capabilities;
+    // Delta bases don't carry over to a new connection
+    session.codec = capabilities.has('binary-codec') ? new ServerCodec() : null;
+    session.disconnectedAt = null;
+    session.playingSince = Date.now();
+    // Tokens are single use
+    session.resumeToken = this.createResumeToken();
+    this.connectionSessions.set(connection.id, session);
+
+    console.log(`[GameServer] ${session.username} (${session.playerId}) resumed session in world "${session.worldId}"`);
+
+    connection.send('session:started', {
+      requestId,
+      playerId: session.playerId,
+      username: session.username,
+      resumeToken: session.resumeToken,
+      resumed: true,
+      world: world.getInfo(),
+      spawn: { position: player.position, direction: player.direction },
+      capabilities: Array.from(capabilities)
+    });
+
+    // Full list of players in range so the client can drop players that left and add ones that joined meanwhile
+    connection.send('world:players', { players: this.getVisiblePlayers(session, world) });
+
+    const missedMessages = world
+      .getChatMessagesSince(disconnectedAt)
+      .filter(message => message.data.playerId === session.playerId || session.visiblePlayers.has(message.data.playerId));
+    if (missedMessages.length > 0 && capabilities.has('chat-history')) {
+      connection.send('chat:history', { messages: missedMessages });
+    }
+
+    // Chunks that changed while the client was away; it keeps the rest
+    const changedChunks = Array.from(session.sentChunks)
+      .map(([key, version]) => ({ version, chunk: world.getChunkByKey(key) }))
+      .filter(({ chunk, version }) => chunk.version > version)
+      .map(({ chunk }) => chunk);
+    this.sendChunks(session, world, changedChunks);
+  }
+
+  /**
+   * Handle a movement update, acknowledge it to the sender and forward it to the players in range
+   */
+  private handleMove(connection: ClientConnection, data: MoveRequest): void {
+    const session = this.connectionSessions.get(connection.id);
+    if (!session) return;
+
+    // Stale or repeated update (e.g. re-sent after a resume)
+    if (data.sequence <= session.lastSequence) return;
+
+    const world = this.worlds.get(session.worldId);
+    if (!world) return;
+
+    const result = world.movePlayer(session.playerId, data);
+    if (!result) return;
+
+    // The ack carries the authoritative position; when it was corrected the client replays its newer inputs on top
+    const { player, corrected } = result;
+    session.lastSequence = data.sequence;
+    this.send(session, 'move:ack', { sequence: data.sequence, position: player.position, corrected });
+
+    // Interest only changes when the player crosses a chunk border
+    const chunkKey = world.getChunkKeyAt(player.position);
+    if (chunkKey !== session.currentChunk) {
+      session.currentChunk = chunkKey;
+      this.updateInterest(session, world);
+    }
+
+    this.broadcastToViewers(session, 'player:move', {
+      timestamp: player.lastUpdate,
+      data: {
+        playerId: player.id,
+        position: player.position,
+        direction: player.direction,
+        isMoving: player.isMoving
+      }
+    });
+  }
+
+  /**
+   * Relay a chat message to the sender and the players in range
+   */
+  private handleChatMessage(connection: ClientConnection, message: string): void {
+    const session = this.connectionSessions.get(connection.id);
+    if (!session) return;
+
+    const world = this.worlds.get(session.worldId);
+    const text = message.trim();
+    if (!world || !text) return;
+
+    const chatMessage: ChatMessage = {
+      timestamp: Date.now(),
+      data: {
+        playerId: session.playerId,
+        username: session.username,
+        message: text
+      }
+    };
+
+    world.addChatMessage(chatMessage);
+    this.storage.messages.add(world.id, chatMessage);
+    this.send(session, 'chat:message', chatMessage);
+    this.broadcastToViewers(session, 'chat:message', chatMessage);
+  }
+
+  /**
+   * Answer a client's request for the chunks around it. Chunks too far from the player are ignored,
+   * so clients can't make the server generate the whole world, and requests for more chunks than
+   * that area holds are refused outright.
+   */
+  private handleChunkRequest(connection: ClientConnection, requested: ChunkCoordinates[]): void {
+    const session = this.connectionSessions.get(connection.id);
+    const world = session && this.worlds.get(session.worldId);
+    const player = session && world?.getPlayer(session.playerId);
+    if (!session || !world || !player) return;
+    if (!this.checkChunkRequestSize(connection, world, requested)) return;
+
+    const maxDistance = world.getInfo().config.renderDistance + CHUNK_REQUEST_MARGIN;
+    const keys = new Set<string>();
+    const chunks = requested
+      .filter(({ x, y }) => {
+        const key = world.getChunkKey(x, y);
+        if (keys.has(key)) return false;
+        keys.add(key);
+        return world.isChunkInWorld(x, y) && world.getChunkDistance(player.position, x, y) <= maxDistance;
+      })
+      .map(({ x, y }) => world.getChunk(x, y));
+
+    if (chunks.length < requested.length) {
+      console.warn(`[GameServer] Ignored ${requested.length - chunks.length} chunk requests from ${session.username} (duplicate or out of range)`);
+    }
+    this.sendChunks(session, world, chunks);
+  }
+
+  /**
+   * Send the full contents of chunks a seed-sync client generated differently.
+   * Only chunks the client was sent can be asked for.
+   */
+  private handleResync(connection: ClientConnection, requested: ChunkCoordinates[]): void {
+    const session = this.connectionSessions.get(connection.id);
+    const world = session && this.worlds.get(session.worldId);
+    if (!session || !world) return;
+    if (!this.checkChunkRequestSize(connection, world, requested)) return;
+
+    const chunks = requested
+      .filter(({ x, y }) => world.isChunkInWorld(x, y) && session.sentChunks.has(world.getChunkKey(x, y)))
+      .map(({ x, y }) => world.getChunk(x, y));
+
+    if (chunks.length === 0) return;
+
+    chunks.forEach(chunk => session.sentChunks.set(world.getChunkKey(chunk.x, chunk.y), chunk.version));
+    console.warn(`[GameServer] Resyncing ${chunks.length} chunks for ${session.username} (${session.playerId})`);
+    this.send(session, 'world:chunks', { chunks });
+  }
+
+  /**
+   * Refuse chunk requests longer than the number of chunks a player may request at once
+   * (the square around it out to the render distance plus margin), before any work is done on them
+   */
+  private checkChunkRequestSize(connection: ClientConnection, world: GameWorld, requested: ChunkCoordinates[]): boolean {
+    const side = 2 * (world.getInfo().config.renderDistance + CHUNK_REQUEST_MARGIN) + 1;
+    if (requested.length <= side * side) return true;
+
+    this.sendError(connection, `Too many chunks requested at once (${requested.length}, at most ${side * side})`);
+    return false;
+  }
+
+  /**
+   * Handle a deliberate leave: remove the player right away instead of waiting for a resume
+   */
+  private handleLeave(connection: ClientConnection): void {
+    const session = this.connectionSessions.get(connection.id);
+    if (!session) return;
+
+    this.connectionSessions.delete(connection.id);
+    session.connection = null;
+    this.removeSession(session);
+  }
+
+  /**
+   * Suspend the session of a dropped client; the player is removed if it doesn't resume in time
+   */
+  private handleDisconnect(connection: ClientConnection, reason: string): void {
+    console.log(`[GameServer] Client disconnected: ${connection.id} (${reason})`);
+
+    this.connections.delete(connection.id);
+    this.lastActivity.delete(connection.id);
+
+    const session = this.connectionSessions.get(connection.id);
+    if (!session) return;
+
+    this.connectionSessions.delete(connection.id);
+    session.connection = null;
+    session.disconnectedAt = Date.now();
+
+    // Don't leave the player walking in place for everyone else while we wait
+    const world = this.worlds.get(session.worldId);
+    const player = world?.getPlayer(session.playerId);
+    if (world && player?.isMoving) {
+      const stopped = world.movePlayer(player.id, { ...player, isMoving: false })?.player;
+      if (stopped) {
+        this.broadcastToViewers(session, 'player:move', {
+          timestamp: stopped.lastUpdate,
+          data: {
+            playerId: stopped.id,
+            position: stopped.position,
+            direction: stopped.direction,
+            isMoving: false
+          }
+        });
+      }
+    }
+
+    // Saved now in case the server stops before the session expires; written with the next save
+    this.savePlayer(session);
+
+    session.expiryTimer = setTimeout(() => {
+      console.log(`[GameServer] Session of ${session.username} (${session.playerId}) expired`);
+      this.removeSession(session);
+    }, this.config.resumeGracePeriod);
+  }
+
+  /**
+   * Drop connections that have been silent longer than the idle timeout, and send a heartbeat to every joined client
+   */
+  private checkHeartbeats(): void {
+    const now = Date.now();
+
+    this.connections.forEach(connection => {
+      const idleFor = now - (this.lastActivity.get(connection.id) ?? now);
+      if (idleFor > this.config.idleTimeout) {
+        this.handleIdleTimeout(connection, idleFor);
+        return;
+      }
+
+      const session = this.connectionSessions.get(connection.id);
+      if (!session) return;
+
+      // Suspended players are left out, so clients can show them as possibly gone
+      const alivePlayers = Array.from(session.visiblePlayers).filter(id => !!this.sessions.get(id)?.connection);
+      connection.send('heartbeat', { timestamp: now, players: alivePlayers });
+    });
+  }
+
+  /**
+   * Drop a connection that stopped sending heartbeats. Its transport never reported closing,
+   * so the client is assumed dead and the player leaves right away instead of waiting for a resume.
+   */
+  private handleIdleTimeout(connection: ClientConnection, idleFor: number): void {
+    console.log(`[GameServer] Client ${connection.id} timed out after ${Math.round(idleFor / 1000)}s without messages`);
+
+    const session = this.connectionSessions.get(connection.id);
+    if (session) {
+      this.connectionSessions.delete(connection.id);
+      session.connection = null;
+      this.removeSession(session);
+    }
+
+    this.connections.delete(connection.id);
+    this.lastActivity.delete(connection.id);
+    connection.close();
+  }
+
+  /**
+   * Close the connection of a session another client is taking over. The old client is told with a
+   * join:rejected without request id, so it gives up instead of reconnecting and taking the session back.
+   */
+  private dropReplacedConnection(session: PlayerSession): void {
+    const replaced = session.connection;
+    if (!replaced) return;
+
+    console.log(`[GameServer] ${session.username} (${session.playerId}) is taken over by another client, closing ${replaced.id}`);
+
+    this.connectionSessions.delete(replaced.id);
+    this.connections.delete(replaced.id);
+    this.lastActivity.delete(replaced.id);
+    session.connection = null;
+    this.rejectJoin(replaced, '', 'already-playing', `${session.username} is now playing from another client`);
+    replaced.close();
+  }
+
+  /**
+   * Remove a player from its world for good and notify everyone else
+   */
+  private removeSession(session: PlayerSession): void {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+
+    this.sessions.delete(session.playerId);
+
+    const world = this.worlds.get(session.worldId);
+    if (!world) return;
+
+    this.savePlayer(session);
+    world.removePlayer(session.playerId);
+    this.broadcastToViewers(session, 'player:left', { playerId: session.playerId });
+    session.visiblePlayers.forEach(id => this.sessions.get(id)?.visiblePlayers.delete(session.playerId));
+    session.visiblePlayers.clear();
+
+    console.log(`[GameServer] ${session.username} (${session.playerId}) left world "${session.worldId}"`);
+  }
+
+  /**
+   * Recompute which players a session and the others in its world can see after it moved,
+   * sending enter/exit events to both sides of every pair that changed
+   */
+  private updateInterest(session: PlayerSession, world: GameWorld): void {
+    const player = world.getPlayer(session.playerId);
+    if (!player) return;
+
+    this.sessions.forEach(other => {
+      if (other === session || other.worldId !== session.worldId) return;
+
+      const otherPlayer = world.getPlayer(other.playerId);
+      if (!otherPlayer) return;
+
+      const inRange = world.isInInterestRange(player.position, otherPlayer.position);
+      const visible = session.visiblePlayers.has(other.playerId);
+
+      if (inRange && !visible) {
+        session.visiblePlayers.add(other.playerId);
+        other.visiblePlayers.add(session.playerId);
+        this.send(session, 'player:entered', { player: otherPlayer });
+        this.send(other, 'player:entered', { player });
+      } else if (!inRange && visible) {
+        session.visiblePlayers.delete(other.playerId);
+        other.visiblePlayers.delete(session.playerId);
+        this.send(session, 'player:exited', { playerId: other.playerId });
+        this.send(other, 'player:exited', { playerId: session.playerId });
+      }
+    });
+  }
+
+  /**
+   * Create a world with the chunk changes and recent chat saved in storage. Changes saved for another
+   * seed or chunk size would apply to the wrong elements, so they are dropped.
+   */
+  private loadWorld(definition: WorldDefinition): GameWorld {
+    const { id, config } = definition;
+    const world = new GameWorld(definition, this.config.chatHistorySize);
+    const saved = this.storage.worlds.get(id);
+
+    if (saved && (saved.seed !== config.seed || saved.chunkSize !== config.chunkSize)) {
+      console.warn(`[GameServer] World "${id}" was generated with another seed or chunk size, dropping its saved chunk changes`);
+      this.storage.chunks.deleteAll(id);
+    }
+    this.storage.worlds.save({ id, seed: config.seed, chunkSize: config.chunkSize, createdAt: saved?.createdAt ?? Date.now() });
+
+    const chunks = this.storage.chunks.getAll(id).filter(chunk => world.isChunkInWorld(chunk.x, chunk.y));
+    chunks.forEach(chunk => world.restoreChunk(chunk.x, chunk.y, chunk.diff, chunk.version));
+    this.storage.messages.getRecent(id, this.config.chatHistorySize).forEach(message => world.addChatMessage(message));
+
+    if (chunks.length > 0) {
+      console.log(`[GameServer] Restored ${chunks.length} changed chunks of world "${id}"`);
+    }
+    return world;
+  }
+
+  /**
+   * Remember where a player is in their profile, along with the time played since the last save
+   */
+  private savePlayer(session: PlayerSession): void {
+    const player = this.worlds.get(session.worldId)?.getPlayer(session.playerId);
+    if (session.guest || !player) return;
+
+    const now = Date.now();
+    const playTime = session.playingSince !== null ? now - session.playingSince : 0;
+    session.playingSince = session.connection ? now : null;
+
+    const profile = this.storage.players.get(session.playerId) ?? {
+      id: session.playerId,
+      username: session.username,
+      lastWorldId: session.worldId,
+      locations: {},
+      createdAt: now,
+      lastSeenAt: now,
+      playTime: 0
+    };
+
+    this.storage.players.save({
+      ...profile,
+      username: session.username,
+      lastWorldId: session.worldId,
+      locations: { ...profile.locations, [session.worldId]: { position: player.position, direction: player.direction } },
+      lastSeenAt: now,
+      playTime: profile.playTime + playTime
+    });
+  }
+
+  /**
+   * Save the locations of all players in game and drop expired chat and login sessions. Called before every
+   * write of the storage, so a crash loses at most one save interval.
+   */
+  private save(): void {
+    this.sessions.forEach(session => this.savePlayer(session));
+    this.storage.messages.deleteBefore(Date.now() - this.config.chatRetention);
+    this.accounts.pruneExpiredTokens();
+  }
+
+  private getSessionsInRange(session: PlayerSession, world: GameWorld, position: Position): PlayerSession[] {
+    return Array.from(this.sessions.values()).filter(other => {
+      if (other === session || other.worldId !== session.worldId) return false;
+      const otherPlayer = world.getPlayer(other.playerId);
+      return !!otherPlayer && world.isInInterestRange(position, otherPlayer.position);
+    });
+  }
+
+  private getVisiblePlayers(session: PlayerSession, world: GameWorld): PlayerState[] {
+    return Array.from(session.visiblePlayers)
+      .map(id => world.getPlayer(id))
+      .filter((player): player is PlayerState => !!player);
+  }
+
+  private findResumableSession(resumeToken: string, worldId: string): PlayerSession | null {
+    for (const session of this.sessions.values()) {
+      if (session.resumeToken === resumeToken && session.worldId === worldId) {
+        return session;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Send chunks to a client, remembering which versions it has.
+   * Seed-sync clients generate chunks themselves and only get the changes and checksums.
+   */
+  private sendChunks(session: PlayerSession, world: GameWorld, chunks: WorldChunk[]): void {
+    if (!session.connection || chunks.length === 0) return;
+
+    chunks.forEach(chunk => session.sentChunks.set(world.getChunkKey(chunk.x, chunk.y), chunk.version));
+
+    if (session.capabilities.has('seed-sync')) {
+      this.send(session, 'world:chunk-sync', { chunks: chunks.map(chunk => world.getChunkSync(chunk.x, chunk.y)) });
+    } else {
+      this.send(session, 'world:chunks', { chunks });
+    }
+  }
+
+  /**
+   * Send an event to every connected client that can see a session's player
+   */
+  private broadcastToViewers<E extends ServerEventName>(
+    session: PlayerSession,
+    event: E,
+    payload: ServerPayload<E>
+  ): void {
+    session.visiblePlayers.forEach(id => {
+      const viewer = this.sessions.get(id);
+      if (viewer) this.send(viewer, event, payload);
+    });
+  }
+
+  /**
+   * Send an event to a session's client, binary encoded if the client negotiated the binary codec
+   */
+  private send<E extends ServerEventName>(session: PlayerSession, event: E, payload: ServerPayload<E>): void {
+    if (!session.connection) return;
+
+    const encoded = session.codec?.encode(event, payload);
+    if (encoded) {
+      session.connection.sendBinary(event, encoded);
+    } else {
+      session.connection.send(event, payload);
+    }
+  }
+
+  private createResumeToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+
+  private rejectJoin(connection: ClientConnection, requestId: string, reason: JoinRejectReason, message: string): void {
+    console.warn(`[GameServer] Join from ${connection.id} rejected (${reason}): ${message}`);
+    connection.send('join:rejected', { requestId, reason, message, protocolVersion: PROTOCOL_VERSION });
+  }
+
+  private sendError(connection: ClientConnection, message: string): void {
+    console.warn(`[GameServer] Error for ${connection.id}: ${message}`);
+    connection.send('error', { message });
+  }
+}
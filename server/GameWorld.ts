@@ -0,0 +1,360 @@
+// file: server/GameWorld.ts
+import { ChunkDiff, Hitbox, Position, WorldChunk, WorldConfig } from '../src/utils/game';
+import { ChatMessage, ChunkSync, MoveRequest, PlayerState, SpawnPoint, WorldInfo } from '../src/utils/protocol';
+import { applyChunkDiff, getChunkChecksum, isEmptyDiff, mergeChunkDiffs } from '../src/utils/chunkSync';
+import { collidesAt, getTreeHitbox } from '../src/utils/movement';
+import { generateChunk } from '../src/utils/worldGenerator';
+import { WorldDefinition } from './config';
+
+// Players move movementSpeed px per axis every 16.67ms. Time not spent moving is banked, up to
+// MAX_MOVE_BUDGET ms, so updates bunched together by network jitter aren't rejected.
+const MAX_MOVE_BUDGET = 500;
+const SPEED_TOLERANCE = 1.1;
+// Distance between collision checks along a move, small enough not to skip over a trunk
+const COLLISION_STEP = 8;
+
+export interface MoveResult {
+  player: PlayerState;
+  // True if the requested position was clamped or rejected; the client needs the authoritative one
+  corrected: boolean;
+}
+
+/**
+ * Holds the state of a single world: the players in it, the chunks generated so far and recent chat
+ */
+export class GameWorld {
+  public readonly id: string;
+  private definition: WorldDefinition;
+  private config: WorldConfig;
+  private players: Map<string, PlayerState> = new Map();
+  private chunks: Map<string, WorldChunk> = new Map();
+  // Changes made to chunks since they were generated, and checksums of the resulting chunks
+  private chunkDiffs: Map<string, ChunkDiff> = new Map();
+  private chunkChecksums: Map<string, number> = new Map();
+  // Versions of changed chunks; the others are still at version 0
+  private chunkVersions: Map<string, number> = new Map();
+  // Banked movement time per player (ms), see MAX_MOVE_BUDGET
+  private moveBudgets: Map<string, { budget: number; updatedAt: number }> = new Map();
+  // Recent chat messages, replayed to clients that resume a session
+  private chatHistory: ChatMessage[] = [];
+  private chatHistorySize: number;
+
+  constructor(definition: WorldDefinition, chatHistorySize: number) {
+    this.id = definition.id;
+    this.definition = definition;
+    this.config = definition.config;
+    this.chatHistorySize = chatHistorySize;
+  }
+
+  /**
+   * Describe the world for the lobby
+   */
+  public getInfo(): WorldInfo {
+    return {
+      id: this.id,
+      name: this.definition.name,
+      description: this.definition.description,
+      playerCount: this.players.size,
+      maxPlayers: this.definition.maxPlayers,
+      config: this.config
+    };
+  }
+
+  /**
+   * Where new players appear: the centre of the world
+   */
+  public getSpawnPoint(): SpawnPoint {
+    return {
+      position: {
+        x: this.config.worldWidth / 2,
+        y: this.config.worldHeight / 2
+      },
+      direction: 'down'
+    };
+  }
+
+  /**
+   * Add a player at a saved location, or at the spawn point. Locations outside the world
+   * (e.g. after it was made smaller) are moved inside it.
+   */
+  public addPlayer(id: string, username: string, location: SpawnPoint = this.getSpawnPoint()): PlayerState {
+    const player: PlayerState = {
+      id,
+      username,
+      position: this.clampToWorld(location.position),
+      direction: location.direction,
+      isMoving: false,
+      animationFrame: 0,
+      lastUpdate: Date.now()
+    };
+
+    this.players.set(id, player);
+    this.moveBudgets.set(id, { budget: 0, updatedAt: player.lastUpdate });
+    return player;
+  }
+
+  /**
+   * Remove a player from the world
+   */
+  public removePlayer(id: string): void {
+    this.players.delete(id);
+    this.moveBudgets.delete(id);
+  }
+
+  /**
+   * Validate a movement update against world bounds, movement speed and trees, and apply
+   * as much of it as is possible. The resulting position is authoritative.
+   */
+  public movePlayer(id: string, update: Omit<MoveRequest, 'sequence'>): MoveResult | null {
+    const player = this.players.get(id);
+    if (!player) return null;
+
+    const now = Date.now();
+    const from = player.position;
+    const target = this.clampToWorld(update.position);
+
+    // Speed: the larger axis counts, as each axis moves at full speed on its own
+    const moveBudget = this.moveBudgets.get(id) ?? { budget: 0, updatedAt: now };
+    const available = Math.min(moveBudget.budget + (now - moveBudget.updatedAt), MAX_MOVE_BUDGET);
+    const speed = this.config.movementSpeed * SPEED_TOLERANCE;
+    const maxDistance = (speed * available) / 16.67;
+    const distance = Math.max(Math.abs(target.x - from.x), Math.abs(target.y - from.y));
+
+    let allowed = target;
+    if (distance > maxDistance) {
+      const scale = maxDistance / distance;
+      allowed = {
+        x: from.x + (target.x - from.x) * scale,
+        y: from.y + (target.y - from.y) * scale
+      };
+    }
+    const used = Math.min(available, (distance * 16.67) / speed);
+    this.moveBudgets.set(id, { budget: available - used, updatedAt: now });
+
+    const position = this.sweepMove(from, allowed);
+    const corrected = position.x !== update.position.x || position.y !== update.position.y;
+
+    const updated: PlayerState = {
+      ...player,
+      position,
+      direction: update.direction,
+      isMoving: update.isMoving,
+      lastUpdate: now
+    };
+
+    this.players.set(id, updated);
+    return { player: updated, corrected };
+  }
+
+  public getPlayer(id: string): PlayerState | undefined {
+    return this.players.get(id);
+  }
+
+  public getPlayers(): PlayerState[] {
+    return Array.from(this.players.values());
+  }
+
+  public isUsernameTaken(username: string): boolean {
+    const name = username.toLowerCase();
+    return this.getPlayers().some(player => player.username.toLowerCase() === name);
+  }
+
+  public isFull(): boolean {
+    return this.players.size >= this.definition.maxPlayers;
+  }
+
+  /**
+   * Record a chat message, keeping only the most recent ones
+   */
+  public addChatMessage(message: ChatMessage): void {
+    this.chatHistory.push(message);
+    if (this.chatHistory.length > this.chatHistorySize) {
+      this.chatHistory.shift();
+    }
+  }
+
+  /**
+   * Get recorded chat messages sent after a point in time
+   */
+  public getChatMessagesSince(timestamp: number): ChatMessage[] {
+    return this.chatHistory.filter(message => message.timestamp > timestamp);
+  }
+
+  /**
+   * Whether two positions are close enough for their players to see each other:
+   * their chunks are at most renderDistance chunks apart on both axes
+   */
+  public isInInterestRange(a: Position, b: Position): boolean {
+    const { chunkSize, renderDistance } = this.config;
+    return (
+      Math.abs(Math.floor(a.x / chunkSize) - Math.floor(b.x / chunkSize)) <= renderDistance &&
+      Math.abs(Math.floor(a.y / chunkSize) - Math.floor(b.y / chunkSize)) <= renderDistance
+    );
+  }
+
+  /**
+   * Get the key of the chunk containing a world position
+   */
+  public getChunkKeyAt(position: Position): string {
+    const { x, y } = this.getChunkCoordinates(position);
+    return this.getChunkKey(x, y);
+  }
+
+  /**
+   * How many chunks away from the chunk containing a position a chunk is, on the farther axis
+   */
+  public getChunkDistance(position: Position, chunkX: number, chunkY: number): number {
+    const center = this.getChunkCoordinates(position);
+    return Math.max(Math.abs(chunkX - center.x), Math.abs(chunkY - center.y));
+  }
+
+  public getChunkKey(chunkX: number, chunkY: number): string {
+    return `${chunkX},${chunkY}`;
+  }
+
+  public getChunkByKey(key: string): WorldChunk {
+    const [chunkX, chunkY] = key.split(',').map(Number);
+    return this.getChunk(chunkX, chunkY);
+  }
+
+  /**
+   * Whether chunk coordinates are inside the world
+   */
+  public isChunkInWorld(chunkX: number, chunkY: number): boolean {
+    const { chunkSize, worldWidth, worldHeight } = this.config;
+    return (
+      Number.isInteger(chunkX) && Number.isInteger(chunkY) &&
+      chunkX >= 0 && chunkY >= 0 && chunkX * chunkSize < worldWidth && chunkY * chunkSize < worldHeight
+    );
+  }
+
+  /**
+   * Get a chunk as generated from the seed with all changes applied
+   */
+  public getChunk(chunkX: number, chunkY: number): WorldChunk {
+    const key = this.getChunkKey(chunkX, chunkY);
+    const cached = this.chunks.get(key);
+    if (cached) return cached;
+
+    const generated = generateChunk(chunkX, chunkY, this.config.chunkSize, this.config.seed);
+    const chunk = { ...applyChunkDiff(generated, this.chunkDiffs.get(key)), version: this.chunkVersions.get(key) ?? 0 };
+    this.chunks.set(key, chunk);
+    return chunk;
+  }
+
+  /**
+   * Describe a chunk for seed-sync clients: its changes since generation and a checksum of the result
+   */
+  public getChunkSync(chunkX: number, chunkY: number): ChunkSync {
+    const key = this.getChunkKey(chunkX, chunkY);
+    let checksum = this.chunkChecksums.get(key);
+    if (checksum === undefined) {
+      checksum = getChunkChecksum(this.getChunk(chunkX, chunkY));
+      this.chunkChecksums.set(key, checksum);
+    }
+
+    const diff = this.chunkDiffs.get(key);
+    const version = this.chunkVersions.get(key) ?? 0;
+    return diff ? { x: chunkX, y: chunkY, diff, checksum, version } : { x: chunkX, y: chunkY, checksum, version };
+  }
+
+  /**
+   * Change a chunk: remove generated elements and add or replace others. Bumps the chunk's version.
+   */
+  public modifyChunk(chunkX: number, chunkY: number, change: ChunkDiff): void {
+    const key = this.getChunkKey(chunkX, chunkY);
+    const existing = this.chunkDiffs.get(key);
+    const diff = existing ? mergeChunkDiffs(existing, change) : change;
+
+    if (isEmptyDiff(diff)) {
+      this.chunkDiffs.delete(key);
+    } else {
+      this.chunkDiffs.set(key, diff);
+    }
+    this.chunkVersions.set(key, (this.chunkVersions.get(key) ?? 0) + 1);
+    this.chunks.delete(key);
+    this.chunkChecksums.delete(key);
+  }
+
+  /**
+   * Put back a chunk's changes and version as they were saved before a restart
+   */
+  public restoreChunk(chunkX: number, chunkY: number, diff: ChunkDiff, version: number): void {
+    const key = this.getChunkKey(chunkX, chunkY);
+    if (!isEmptyDiff(diff)) {
+      this.chunkDiffs.set(key, diff);
+    }
+    this.chunkVersions.set(key, version);
+    this.chunks.delete(key);
+    this.chunkChecksums.delete(key);
+  }
+
+  /**
+   * Walk from one position towards another in small steps, sliding along trees like the client does,
+   * and return how far the player gets. A player already inside a tree may walk out freely.
+   */
+  private sweepMove(from: Position, to: Position): Position {
+    const obstacles = this.getTreeHitboxesAround(from, to);
+    const collides = (position: Position) => collidesAt(position, this.config, obstacles);
+
+    if (collides(from)) return to;
+
+    const distance = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+    const steps = Math.max(1, Math.ceil(distance / COLLISION_STEP));
+    let current = from;
+
+    for (let i = 1; i <= steps; i++) {
+      const next = {
+        x: from.x + ((to.x - from.x) * i) / steps,
+        y: from.y + ((to.y - from.y) * i) / steps
+      };
+
+      if (!collides(next)) {
+        current = next;
+      } else if (!collides({ x: current.x, y: next.y })) {
+        current = { x: current.x, y: next.y };
+      } else if (!collides({ x: next.x, y: current.y })) {
+        current = { x: next.x, y: current.y };
+      } else {
+        break;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Hitboxes of the trees in every chunk a move between two positions can touch
+   */
+  private getTreeHitboxesAround(a: Position, b: Position): Hitbox[] {
+    const size = this.config.characterSize;
+    const min = this.getChunkCoordinates({ x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) });
+    const max = this.getChunkCoordinates({ x: Math.max(a.x, b.x) + size, y: Math.max(a.y, b.y) + size });
+    const hitboxes: Hitbox[] = [];
+
+    for (let x = Math.max(0, min.x); x <= max.x; x++) {
+      for (let y = Math.max(0, min.y); y <= max.y; y++) {
+        if (x * this.config.chunkSize >= this.config.worldWidth || y * this.config.chunkSize >= this.config.worldHeight) {
+          continue;
+        }
+        hitboxes.push(...this.getChunk(x, y).trees.map(getTreeHitbox));
+      }
+    }
+
+    return hitboxes;
+  }
+
+  private getChunkCoordinates(position: Position) {
+    return {
+      x: Math.floor(position.x / this.config.chunkSize),
+      y: Math.floor(position.y / this.config.chunkSize)
+    };
+  }
+
+  private clampToWorld(position: Position): Position {
+    return {
+      x: Math.max(0, Math.min(position.x, this.config.worldWidth - this.config.characterSize)),
+      y: Math.max(0, Math.min(position.y, this.config.worldHeight - this.config.characterSize))
+    };
+  }
+}
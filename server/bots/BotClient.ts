@@ -0,0 +1,252 @@
+// file: server/bots/BotClient.ts
+import { MultiplayerClient } from '../../src/services/MultiPlayerClient';
+import { NetworkStatsSnapshot } from '../../src/services/NetworkStats';
+import { Direction, Position, WorldConfig } from '../../src/utils/game';
+import { MovementInput, applyMovementInput } from '../../src/utils/movement';
+
+// random-walk: wander in random directions with pauses; patrol: follow BotOptions.script in a loop; idle: stand still
+export type BotMovement = 'random-walk' | 'patrol' | 'idle';
+
+// One step of a movement script: walk in a direction (or stand still) for a while
+export interface ScriptStep {
+  direction: Direction | null;
+  duration: number;
+}
+
+export interface BotOptions {
+  serverUrl: string;
+  worldId: string;
+  username: string;
+  movement: BotMovement;
+  // Steps walked in a loop by patrolling bots
+  script: ScriptStep[];
+  // Time between movement updates while walking (ms)
+  moveInterval: number;
+  // Range of time between two chat messages (ms), null for bots that don't chat
+  chatInterval: [number, number] | null;
+}
+
+// A walk around a square, returning to the start
+export const PATROL_SCRIPT: ScriptStep[] = [
+  { direction: 'right', duration: 2000 },
+  { direction: 'down', duration: 2000 },
+  { direction: 'left', duration: 2000 },
+  { direction: 'up', duration: 2000 },
+  { direction: null, duration: 1000 }
+];
+
+export const DEFAULT_BOT_OPTIONS: Omit<BotOptions, 'username'> = {
+  serverUrl: 'http://localhost:3001',
+  worldId: 'default',
+  movement: 'random-walk',
+  script: PATROL_SCRIPT,
+  moveInterval: 100,
+  chatInterval: [5000, 15000]
+};
+
+// Measurements collected since the last takeSamples()
+export interface BotSamples {
+  // Time from sending a move to its ack (ms)
+  moveLatencies: number[];
+  // Time from sending a chat message to receiving it back (ms)
+  chatLatencies: number[];
+  corrections: number;
+  errors: string[];
+}
+
+const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+const CHAT_PHRASES = ['hello', 'anyone around?', 'nice trees', 'heading north', 'brb', 'this forest is huge'];
+
+/**
+ * A headless player: a MultiplayerClient driven by a movement pattern instead of a keyboard.
+ * Measures the latency of its own moves and chat messages.
+ */
+export class BotClient {
+  public readonly username: string;
+  private options: BotOptions;
+  private client: MultiplayerClient = new MultiplayerClient();
+  private config: WorldConfig | null = null;
+  private position: Position = { x: 0, y: 0 };
+  private direction: Direction = 'down';
+  private sequence: number = 0;
+
+  // Current movement: what the bot does until stepEndsAt
+  private step: ScriptStep = { direction: null, duration: 0 };
+  private stepIndex: number = -1;
+  private stepEndsAt: number = 0;
+  // Standing still only needs to be sent once per rest
+  private stopSent: boolean = false;
+  private lastMoveAt: number = 0;
+  private moveTimer: ReturnType<typeof setInterval> | null = null;
+  private chatTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Send times of moves and chat messages waiting for their answer
+  private pendingMoves: Map<number, number> = new Map();
+  // Inputs of the moves not acknowledged yet, replayed on top of a corrected position
+  private pendingInputs: MovementInput[] = [];
+  private pendingChats: Map<string, number> = new Map();
+  private chatCount: number = 0;
+  private samples: BotSamples = { moveLatencies: [], chatLatencies: [], corrections: 0, errors: [] };
+
+  constructor(options: Partial<BotOptions> & Pick<BotOptions, 'username'>) {
+    this.options = { ...DEFAULT_BOT_OPTIONS, ...options };
+    this.username = options.username;
+
+    this.client.onMoveAck((sequence, position, corrected) => this.handleMoveAck(sequence, position, corrected));
+    this.client.onChatMessage((playerId, _username, message) => this.handleChatMessage(playerId, message));
+    this.client.onError(message => this.samples.errors.push(message));
+  }
+
+  /**
+   * Join the server and start moving and chatting. Rejects with a JoinError if the server turns the bot down.
+   */
+  public async start(): Promise<void> {
+    await this.client.connect(this.options.username, this.options.worldId, this.options.serverUrl);
+
+    const world = this.client.getWorld();
+    const spawn = this.client.getSpawn();
+    if (!world || !spawn) throw new Error('Joined without a world');
+
+    this.config = world.config;
+    this.position = spawn.position;
+    this.direction = spawn.direction;
+    this.lastMoveAt = Date.now();
+
+    this.moveTimer = setInterval(() => this.move(), this.options.moveInterval);
+    this.scheduleChat();
+  }
+
+  /**
+   * Leave the server and stop all timers
+   */
+  public stop(): void {
+    if (this.moveTimer) clearInterval(this.moveTimer);
+    if (this.chatTimer) clearTimeout(this.chatTimer);
+    this.moveTimer = null;
+    this.chatTimer = null;
+    this.client.disconnect();
+  }
+
+  public isConnected(): boolean {
+    return this.client.getConnectionState() === 'connected';
+  }
+
+  public getNetworkStats(): NetworkStatsSnapshot {
+    return this.client.getNetworkStats();
+  }
+
+  /**
+   * Get the measurements collected since the last call and start collecting anew
+   */
+  public takeSamples(): BotSamples {
+    const samples = this.samples;
+    this.samples = { moveLatencies: [], chatLatencies: [], corrections: 0, errors: [] };
+    return samples;
+  }
+
+  /**
+   * Advance the movement pattern and send the new position
+   */
+  private move(): void {
+    if (!this.config || !this.isConnected()) return;
+
+    const now = Date.now();
+    if (now >= this.stepEndsAt) {
+      this.step = this.nextStep();
+      this.stepEndsAt = now + this.step.duration;
+      this.stopSent = false;
+    }
+
+    const { direction } = this.step;
+    const deltaTime = now - this.lastMoveAt;
+    this.lastMoveAt = now;
+
+    if (!direction) {
+      if (this.stopSent) return;
+      this.stopSent = true;
+    } else {
+      const input: MovementInput = {
+        sequence: this.sequence + 1,
+        up: direction === 'up',
+        down: direction === 'down',
+        left: direction === 'left',
+        right: direction === 'right',
+        deltaTime
+      };
+      this.position = this.applyInput(this.position, input);
+      this.direction = direction;
+      this.pendingInputs.push(input);
+    }
+
+    this.sequence++;
+    this.pendingMoves.set(this.sequence, now);
+    this.client.updatePosition(this.position, this.direction, direction !== null, this.sequence);
+  }
+
+  private nextStep(): ScriptStep {
+    switch (this.options.movement) {
+      case 'patrol':
+        this.stepIndex = (this.stepIndex + 1) % this.options.script.length;
+        return this.options.script[this.stepIndex];
+
+      case 'random-walk': {
+        // Mostly walking, with the occasional rest
+        const direction = Math.random() < 0.2 ? null : DIRECTIONS[Math.floor(Math.random() * DIRECTIONS.length)];
+        return { direction, duration: 500 + Math.random() * 2500 };
+      }
+
+      case 'idle':
+        return { direction: null, duration: Infinity };
+    }
+  }
+
+  private scheduleChat(): void {
+    if (!this.options.chatInterval) return;
+
+    const [min, max] = this.options.chatInterval;
+    this.chatTimer = setTimeout(() => {
+      // Numbered so the echo can be matched to the message
+      const message = `${CHAT_PHRASES[this.chatCount % CHAT_PHRASES.length]} #${++this.chatCount}`;
+      this.pendingChats.set(message, Date.now());
+      this.client.sendChatMessage(message);
+      this.scheduleChat();
+    }, min + Math.random() * (max - min));
+  }
+
+  private handleMoveAck(sequence: number, position: Position, corrected: boolean): void {
+    const sentAt = this.pendingMoves.get(sequence);
+    if (sentAt !== undefined) {
+      this.samples.moveLatencies.push(Date.now() - sentAt);
+    }
+    // Acks arrive in order, so anything older was dropped or superseded
+    this.pendingMoves.forEach((_, pending) => {
+      if (pending <= sequence) this.pendingMoves.delete(pending);
+    });
+
+    this.pendingInputs = this.pendingInputs.filter(input => input.sequence > sequence);
+
+    if (corrected) {
+      this.samples.corrections++;
+      // Continue from where the server put us, with the moves it hasn't seen yet on top, as the game client does
+      this.position = this.pendingInputs.reduce((replayed, input) => this.applyInput(replayed, input), position);
+    }
+  }
+
+  private applyInput(position: Position, input: MovementInput): Position {
+    if (!this.config) return position;
+
+    // Trees are the server's business; it corrects us if we walk into one
+    return applyMovementInput(position, input, this.config, () => false).position;
+  }
+
+  private handleChatMessage(playerId: string, message: string): void {
+    if (playerId !== this.client.getPlayerId()) return;
+
+    const sentAt = this.pendingChats.get(message);
+    if (sentAt === undefined) return;
+
+    this.pendingChats.delete(message);
+    this.samples.chatLatencies.push(Date.now() - sentAt);
+  }
+}
@@ -0,0 +1,215 @@
+// file: server/bots/loadTest.ts
+// Load test: connects a number of bots to a server and reports latency, throughput and errors.
+//
+//   npm run loadtest -- --bots 50 --duration 60
+//   npm run loadtest -- --local --bots 200 --movement patrol
+//
+// Options (defaults in brackets):
+//   --url <url>              server to test [http://localhost:3001]
+//   --local                  start a server in this process on the URL's port first
+//   --world <id>             world the bots join [default]
+//   --bots <n>               number of bots [10]
+//   --duration <s>           how long to run once all bots have joined [30]
+//   --ramp <ms>              time between two bots joining [50]
+//   --movement <kind>        random-walk, patrol or idle [random-walk]
+//   --move-interval <ms>     time between movement updates [100]
+//   --chat-interval <s>      average time between chat messages per bot, 0 for none [10]
+//   --report-interval <s>    time between progress reports [5]
+//   --verbose                keep the clients' and server's own logging
+import { JoinError } from '../../src/services/MultiPlayerClient';
+import { SERVER_CONFIG } from '../config';
+import { RunningServer, startServer } from '../startServer';
+import { BotClient, BotMovement, BotSamples } from './BotClient';
+
+interface LoadTestOptions {
+  url: string;
+  local: boolean;
+  world: string;
+  bots: number;
+  duration: number;
+  ramp: number;
+  movement: BotMovement;
+  moveInterval: number;
+  chatInterval: number;
+  reportInterval: number;
+  verbose: boolean;
+}
+
+const MOVEMENTS: BotMovement[] = ['random-walk', 'patrol', 'idle'];
+
+const parseOptions = (args: string[]): LoadTestOptions => {
+  const value = (name: string, fallback: string): string => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && index + 1 < args.length ? args[index + 1] : fallback;
+  };
+  const number = (name: string, fallback: number): number => {
+    const parsed = Number(value(name, String(fallback)));
+    if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`--${name} must be a non-negative number`);
+    return parsed;
+  };
+
+  const movement = value('movement', 'random-walk') as BotMovement;
+  if (!MOVEMENTS.includes(movement)) throw new Error(`--movement must be one of ${MOVEMENTS.join(', ')}`);
+
+  return {
+    url: value('url', 'http://localhost:3001'),
+    local: args.includes('--local'),
+    world: value('world', 'default'),
+    bots: number('bots', 10),
+    duration: number('duration', 30),
+    ramp: number('ramp', 50),
+    movement,
+    moveInterval: number('move-interval', 100),
+    chatInterval: number('chat-interval', 10),
+    reportInterval: number('report-interval', 5),
+    verbose: args.includes('--verbose')
+  };
+};
+
+// Everything measured over a report interval or the whole run
+class Measurements {
+  public moveLatencies: number[] = [];
+  public chatLatencies: number[] = [];
+  public corrections: number = 0;
+  // Server-side errors and rejections by message
+  public errors: Map<string, number> = new Map();
+
+  public add(samples: BotSamples): void {
+    this.moveLatencies.push(...samples.moveLatencies);
+    this.chatLatencies.push(...samples.chatLatencies);
+    this.corrections += samples.corrections;
+    samples.errors.forEach(error => this.addError(error));
+  }
+
+  public addError(message: string): void {
+    this.errors.set(message, (this.errors.get(message) ?? 0) + 1);
+  }
+
+  public merge(other: Measurements): void {
+    this.moveLatencies.push(...other.moveLatencies);
+    this.chatLatencies.push(...other.chatLatencies);
+    this.corrections += other.corrections;
+    other.errors.forEach((count, message) => this.errors.set(message, (this.errors.get(message) ?? 0) + count));
+  }
+
+  public getErrorCount(): number {
+    return Array.from(this.errors.values()).reduce((sum, count) => sum + count, 0);
+  }
+}
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))];
+
+const formatLatencies = (latencies: number[]): string => {
+  if (latencies.length === 0) return 'n/a';
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return `p50 ${percentile(sorted, 50)}ms p95 ${percentile(sorted, 95)}ms p99 ${percentile(sorted, 99)}ms max ${sorted[sorted.length - 1]}ms (${sorted.length})`;
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const run = async (options: LoadTestOptions): Promise<void> => {
+  // Keep the report readable: every client logs its own connection details
+  const print = console.log.bind(console);
+  if (!options.verbose) {
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+  }
+
+  let server: RunningServer | null = null;
+  if (options.local) {
+    const port = Number(new URL(options.url).port) || SERVER_CONFIG.port;
+    server = await startServer({ ...SERVER_CONFIG, port, storageFile: null });
+    print(`[LoadTest] Started a local server on port ${port}`);
+  }
+
+  print(`[LoadTest] ${options.bots} bots (${options.movement}) joining world "${options.world}" on ${options.url}`);
+
+  const total = new Measurements();
+  let interval = new Measurements();
+  const bots: BotClient[] = [];
+  let failedJoins = 0;
+  const joins: Promise<void>[] = [];
+
+  for (let i = 0; i < options.bots; i++) {
+    const bot = new BotClient({
+      serverUrl: options.url,
+      worldId: options.world,
+      username: `bot${i + 1}`,
+      movement: options.movement,
+      moveInterval: options.moveInterval,
+      chatInterval: options.chatInterval > 0 ? [options.chatInterval * 500, options.chatInterval * 1500] : null
+    });
+
+    joins.push(
+      bot.start().then(
+        () => { bots.push(bot); },
+        (error: unknown) => {
+          failedJoins++;
+          interval.addError(error instanceof JoinError ? `Join rejected (${error.reason}): ${error.message}` : `Join failed: ${error}`);
+          bot.stop();
+        }
+      )
+    );
+    if (options.ramp > 0) await sleep(options.ramp);
+  }
+  await Promise.all(joins);
+  print(`[LoadTest] ${bots.length} bots joined, ${failedJoins} failed`);
+
+  const startedAt = Date.now();
+
+  const report = () => {
+    bots.forEach(bot => interval.add(bot.takeSamples()));
+
+    const connected = bots.filter(bot => bot.isConnected());
+    const stats = connected.map(bot => bot.getNetworkStats());
+    const sum = (pick: (snapshot: (typeof stats)[number]) => number) => stats.reduce((total, snapshot) => total + pick(snapshot), 0);
+    const elapsed = Math.round((Date.now() - startedAt) / 1000);
+
+    print(
+      `[LoadTest] ${elapsed}s | ${connected.length}/${options.bots} connected` +
+      ` | in ${sum(s => s.messagesInPerSecond)} msg/s ${formatBytes(sum(s => s.bytesInPerSecond))}/s` +
+      ` | out ${sum(s => s.messagesOutPerSecond)} msg/s ${formatBytes(sum(s => s.bytesOutPerSecond))}/s` +
+      ` | move ack ${formatLatencies(interval.moveLatencies)}` +
+      ` | errors ${interval.getErrorCount()}`
+    );
+
+    total.merge(interval);
+    interval = new Measurements();
+    return stats;
+  };
+
+  const reportTimer = setInterval(report, options.reportInterval * 1000);
+  await sleep(options.duration * 1000);
+  clearInterval(reportTimer);
+
+  const finalStats = report();
+  const dropped = finalStats.reduce((sum, snapshot) => sum + snapshot.droppedUpdates, 0);
+  const outOfOrder = finalStats.reduce((sum, snapshot) => sum + snapshot.outOfOrderUpdates, 0);
+
+  print('');
+  print('[LoadTest] Summary');
+  print(`  Bots:             ${bots.length} joined, ${failedJoins} failed, ${bots.filter(bot => bot.isConnected()).length} still connected`);
+  print(`  Move ack latency: ${formatLatencies(total.moveLatencies)}`);
+  print(`  Chat latency:     ${formatLatencies(total.chatLatencies)}`);
+  print(`  Corrections:      ${total.corrections}`);
+  print(`  Dropped moves:    ${dropped}, out of order: ${outOfOrder}`);
+  print(`  Errors:           ${total.getErrorCount()}`);
+  total.errors.forEach((count, message) => print(`    ${count}× ${message}`));
+
+  bots.forEach(bot => bot.stop());
+  await server?.close();
+};
+
+run(parseOptions(process.argv.slice(2))).then(
+  () => process.exit(0),
+  (error) => {
+    console.error('[LoadTest] Failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
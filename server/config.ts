@@ -0,0 +1,119 @@
+// file: server/config.ts
+import { WorldConfig } from '../src/utils/game';
+
+// A world hosted by the server. Each has its own seed, size and movement rules.
+export interface WorldDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Joins are refused once this many players are in the world
+  maxPlayers: number;
+  config: WorldConfig;
+}
+
+export interface ServerConfig {
+  // Shown in the client's server browser
+  name: string;
+  motd: string;
+  version: string;
+  port: number;
+  corsOrigin: string;
+  // Path native WebSocket clients connect to (socket.io uses its own /socket.io/ path)
+  webSocketPath: string;
+  // How long a dropped player is kept in the world waiting for a resume (ms)
+  resumeGracePeriod: number;
+  // Time between heartbeats sent to joined clients (ms)
+  heartbeatInterval: number;
+  // Connections that send nothing for this long are dropped and their player leaves (ms)
+  idleTimeout: number;
+  // Offer the compact binary encoding to clients that support it; off keeps every message JSON
+  binaryCodec: boolean;
+  // Recent chat messages kept per world, replayed to resumed clients
+  chatHistorySize: number;
+  // How long a login session token stays valid (ms)
+  authTokenLifetime: number;
+  // JSON file accounts, player profiles, chunk changes and chat are kept in (see server/storage); null keeps them in memory only
+  storageFile: string | null;
+  // Player profiles file of earlier versions, imported into a storage file that doesn't exist yet
+  legacyPlayersFile: string | null;
+  // Accounts file of earlier versions, imported into a storage file written before accounts were part of it
+  legacyAccountsFile: string | null;
+  // Time between writes of storage, including the positions of players in game (ms); also written at shutdown
+  saveInterval: number;
+  // How long chat messages are kept in storage (ms)
+  chatRetention: number;
+  // Worlds players can pick from in the lobby; the first one is the default
+  worlds: WorldDefinition[];
+}
+
+// Server configuration. World configs are authoritative: clients play by whatever config they get on join
+export const SERVER_CONFIG: ServerConfig = {
+  name: process.env.SERVER_NAME || 'Forest Explorer',
+  motd: process.env.SERVER_MOTD || 'Welcome to the forest!',
+  // Set by npm when started with `npm run server`
+  version: process.env.npm_package_version || '0.0.0',
+  port: Number(process.env.PORT) || 3001,
+  corsOrigin: process.env.CORS_ORIGIN || '*',
+  webSocketPath: '/ws',
+  resumeGracePeriod: 30000,
+  heartbeatInterval: 5000,
+  idleTimeout: 30000,
+  binaryCodec: process.env.BINARY_CODEC !== 'off',
+  chatHistorySize: 50,
+  authTokenLifetime: 30 * 24 * 60 * 60 * 1000,
+  storageFile: process.env.STORAGE === 'memory' ? null : process.env.STORAGE_FILE || 'data/storage.json',
+  legacyPlayersFile: process.env.PLAYERS_FILE || 'data/players.json',
+  legacyAccountsFile: process.env.ACCOUNTS_FILE || 'data/accounts.json',
+  saveInterval: 30000,
+  chatRetention: 30 * 24 * 60 * 60 * 1000,
+  worlds: [
+    {
+      id: 'default',
+      name: 'Greenwood',
+      description: 'The main forest for casual play',
+      maxPlayers: 100,
+      config: {
+        worldWidth: 5000,
+        worldHeight: 5000,
+        chunkSize: 500,
+        renderDistance: 2,
+        characterSize: 64,
+        movementSpeed: 2.5,
+        timeScale: 0.1,
+        seed: 0
+      }
+    },
+    {
+      id: 'events',
+      name: 'Festival Glade',
+      description: 'A smaller, faster world for events',
+      maxPlayers: 50,
+      config: {
+        worldWidth: 3000,
+        worldHeight: 3000,
+        chunkSize: 500,
+        renderDistance: 2,
+        characterSize: 64,
+        movementSpeed: 3.5,
+        timeScale: 0.2,
+        seed: 7
+      }
+    },
+    {
+      id: 'testing',
+      name: 'Test Grove',
+      description: 'Small world for trying things out',
+      maxPlayers: 20,
+      config: {
+        worldWidth: 2000,
+        worldHeight: 2000,
+        chunkSize: 500,
+        renderDistance: 2,
+        characterSize: 64,
+        movementSpeed: 2.5,
+        timeScale: 0.1,
+        seed: 42
+      }
+    }
+  ]
+};
@@ -0,0 +1,18 @@
+// file: server/connections/ClientConnection.ts
+import { ServerEventName, ServerPayload } from '../../src/utils/protocol';
+
+/**
+ * One connected client, independent of the wire technology.
+ * GameServer only talks to this interface; adapters wrap socket.io sockets, raw WebSockets
+ * and in-memory connections.
+ */
+export interface ClientConnection {
+  readonly id: string;
+  send<E extends ServerEventName>(event: E, payload: ServerPayload<E>): void;
+  // For payloads encoded with the binary codec
+  sendBinary(event: ServerEventName, data: Uint8Array): void;
+  // Binary codec messages arrive with a binary payload (Buffer or Uint8Array)
+  onMessage(handler: (event: string, payload: unknown) => void): void;
+  onClose(handler: (reason: string) => void): void;
+  close(): void;
+}
@@ -0,0 +1,37 @@
+// file: server/connections/SocketIoConnection.ts
+import { Socket } from 'socket.io';
+import { ServerEventName, ServerPayload } from '../../src/utils/protocol';
+import { ClientConnection } from './ClientConnection';
+
+/**
+ * ClientConnection backed by a socket.io socket
+ */
+export class SocketIoConnection implements ClientConnection {
+  public readonly id: string;
+  private socket: Socket;
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    this.id = socket.id;
+  }
+
+  public send<E extends ServerEventName>(event: E, payload: ServerPayload<E>): void {
+    this.socket.emit(event, payload);
+  }
+
+  public sendBinary(event: ServerEventName, data: Uint8Array): void {
+    this.socket.emit(event, data);
+  }
+
+  public onMessage(handler: (event: string, payload: unknown) => void): void {
+    this.socket.onAny((event: string, payload: unknown) => handler(event, payload));
+  }
+
+  public onClose(handler: (reason: string) => void): void {
+    this.socket.on('disconnect', (reason) => handler(reason));
+  }
+
+  public close(): void {
+    this.socket.disconnect(true);
+  }
+}
@@ -0,0 +1,71 @@
+// file: server/connections/WebSocketConnection.ts
+import { WebSocket } from 'ws';
+import { ServerEventName, ServerPayload, WireFrame } from '../../src/utils/protocol';
+import { packBinaryFrame, unpackBinaryFrame } from '../../src/utils/binaryCodec';
+import { ClientConnection } from './ClientConnection';
+
+let nextConnectionId = 1;
+
+/**
+ * ClientConnection backed by a native WebSocket, exchanging JSON-encoded WireFrames
+ * and binary frames for binary codec messages
+ */
+export class WebSocketConnection implements ClientConnection {
+  public readonly id: string;
+  private socket: WebSocket;
+
+  constructor(socket: WebSocket) {
+    this.socket = socket;
+    this.id = `ws-${nextConnectionId++}`;
+  }
+
+  public send<E extends ServerEventName>(event: E, payload: ServerPayload<E>): void {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+
+    const frame: WireFrame = { event, payload };
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  public sendBinary(event: ServerEventName, data: Uint8Array): void {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(packBinaryFrame(event, data));
+  }
+
+  public onMessage(handler: (event: string, payload: unknown) => void): void {
+    this.socket.on('message', (data, isBinary) => {
+      if (isBinary) {
+        try {
+          const bytes = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+          const { event, data: payload } = unpackBinaryFrame(bytes);
+          handler(event, payload);
+        } catch {
+          console.warn(`[WebSocketConnection] Dropping malformed binary message from ${this.id}`);
+        }
+        return;
+      }
+
+      let frame: WireFrame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        console.warn(`[WebSocketConnection] Dropping non-JSON message from ${this.id}`);
+        return;
+      }
+
+      if (typeof frame?.event !== 'string') {
+        console.warn(`[WebSocketConnection] Dropping message without an event name from ${this.id}`);
+        return;
+      }
+
+      handler(frame.event, frame.payload);
+    });
+  }
+
+  public onClose(handler: (reason: string) => void): void {
+    this.socket.on('close', (code, reason) => handler(reason.toString() || `code ${code}`));
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+}
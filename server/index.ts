@@ -0,0 +1,18 @@
+// file: server/index.ts
+import { SERVER_CONFIG } from './config';
+import { startServer } from './startServer';
+
+const server = await startServer(SERVER_CONFIG);
+
+console.log(`[Server] Forest Explorer server listening on port ${SERVER_CONFIG.port}`);
+console.log(`[Server] socket.io: http://localhost:${SERVER_CONFIG.port}`);
+console.log(`[Server] WebSocket: ws://localhost:${SERVER_CONFIG.port}${SERVER_CONFIG.webSocketPath}`);
+
+// Shut down cleanly so connected clients see a disconnect instead of a timeout
+const shutdown = () => {
+  console.log('[Server] Shutting down...');
+  server.close().then(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,52 @@
+// file: server/startServer.ts
+import { createServer } from 'http';
+import { Server } from 'socket.io';
+import { WebSocketServer } from 'ws';
+import { GameServer } from './GameServer';
+import { ServerConfig } from './config';
+import { SocketIoConnection } from './connections/SocketIoConnection';
+import { WebSocketConnection } from './connections/WebSocketConnection';
+
+export interface RunningServer {
+  gameServer: GameServer;
+  // Disconnects every client and stops listening
+  close(): Promise<void>;
+}
+
+/**
+ * Start a game server listening for socket.io and native WebSocket clients on config.port
+ */
+export const startServer = (config: ServerConfig): Promise<RunningServer> => {
+  const gameServer = new GameServer(config);
+  const httpServer = createServer();
+
+  // socket.io clients (http:// and https:// URLs)
+  const io = new Server(httpServer, {
+    cors: { origin: config.corsOrigin },
+    // Leave upgrade requests for other paths to the raw WebSocket server
+    destroyUpgrade: false
+  });
+  io.on('connection', (socket) => gameServer.addConnection(new SocketIoConnection(socket)));
+
+  // Native WebSocket clients (ws:// and wss:// URLs)
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on('connection', (socket) => gameServer.addConnection(new WebSocketConnection(socket)));
+
+  httpServer.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    if (pathname !== config.webSocketPath) return;
+
+    wss.handleUpgrade(request, socket, head, (ws) => wss.emit('connection', ws, request));
+  });
+
+  const close = () => new Promise<void>(resolve => {
+    gameServer.stop();
+    wss.close();
+    io.close(() => resolve());
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, () => resolve({ gameServer, close }));
+  });
+};
@@ -0,0 +1,136 @@
+// file: server/storage/FileStorage.ts
+import { copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { mkdir, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { MemoryStorage, StorageData } from './MemoryStorage';
+import { SCHEMA_VERSION, StorageDocument, migrate } from './migrations';
+
+interface StorageFile extends StorageData {
+  schemaVersion: number;
+}
+
+// Files earlier versions of the server kept data in, before it was all in the storage file
+export interface LegacyFiles {
+  players?: string | null;
+  accounts?: string | null;
+}
+
+// Schema version that took accounts and session tokens into the storage file
+const ACCOUNTS_SCHEMA_VERSION = 2;
+
+/**
+ * Storage kept in memory and written to a JSON file on flush(), if anything changed, or by flushSync() at shutdown.
+ * Files from older versions of the server are migrated when loaded, after a backup copy is made.
+ * Until the file exists, the player profiles file of earlier versions is imported instead, and accounts come
+ * from their own file until the storage file has them. Neither legacy file is changed.
+ */
+export class FileStorage extends MemoryStorage {
+  private filePath: string;
+  private dirty: boolean = false;
+  // The last write, so the next one starts after it
+  private writing: Promise<void> = Promise.resolve();
+  private writeInFlight: boolean = false;
+  // Numbers the temporary files, so a write in flight and the one at shutdown never share one
+  private writeCount: number = 0;
+  // Set by flushSync(); writes still in flight then are dropped instead of replacing the file
+  private closed: boolean = false;
+
+  constructor(filePath: string, legacyFiles: LegacyFiles = {}) {
+    super(FileStorage.load(filePath, legacyFiles));
+    this.filePath = filePath;
+  }
+
+  public flush(): Promise<void> {
+    const write = this.writing.then(() => this.write());
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  public flushSync(): void {
+    this.closed = true;
+    if (!this.dirty && !this.writeInFlight) return;
+
+    const tempPath = this.nextTempPath();
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(tempPath, this.serialize());
+    renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  protected changed(): void {
+    this.dirty = true;
+  }
+
+  private async write(): Promise<void> {
+    if (!this.dirty || this.closed) return;
+
+    // Taken before waiting on the disk, so changes made meanwhile go into the next write
+    const json = this.serialize();
+    this.dirty = false;
+    this.writeInFlight = true;
+
+    // Written next to the file and renamed over it, so a crash mid-write doesn't leave half a file
+    const tempPath = this.nextTempPath();
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, json);
+      if (this.closed) {
+        await unlink(tempPath);
+      } else {
+        await rename(tempPath, this.filePath);
+      }
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    } finally {
+      this.writeInFlight = false;
+    }
+  }
+
+  private nextTempPath(): string {
+    return `${this.filePath}.${++this.writeCount}.tmp`;
+  }
+
+  private serialize(): string {
+    const data: StorageFile = { schemaVersion: SCHEMA_VERSION, ...this.toData() };
+    return JSON.stringify(data);
+  }
+
+  private static load(filePath: string, legacyFiles: LegacyFiles): StorageData {
+    let document: StorageDocument = {};
+    if (existsSync(filePath)) {
+      document = JSON.parse(readFileSync(filePath, 'utf8')) as StorageDocument;
+    } else if (legacyFiles.players && existsSync(legacyFiles.players)) {
+      // Schema version 0: only players. The old file is left alone, so downgrading still finds it.
+      document = JSON.parse(readFileSync(legacyFiles.players, 'utf8')) as StorageDocument;
+      console.log(`[FileStorage] Importing player profiles from ${legacyFiles.players} into ${filePath}`);
+    }
+    const version = typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+
+    if (version < ACCOUNTS_SCHEMA_VERSION && legacyFiles.accounts && existsSync(legacyFiles.accounts)) {
+      const accountFile = JSON.parse(readFileSync(legacyFiles.accounts, 'utf8')) as StorageDocument;
+      document = { ...document, accounts: accountFile.accounts, tokens: accountFile.tokens };
+      console.log(`[FileStorage] Importing accounts from ${legacyFiles.accounts} into ${filePath}`);
+    }
+
+    if (version === SCHEMA_VERSION) {
+      const data = document as unknown as StorageFile;
+      console.log(
+        `[FileStorage] Loaded ${data.accounts.length} accounts, ${data.players.length} players, ` +
+        `${data.chunks.length} changed chunks and ${data.messages.length} messages from ${filePath}`
+      );
+      return data;
+    }
+
+    const migrated = migrate(document, version) as unknown as StorageData;
+
+    if (existsSync(filePath)) {
+      copyFileSync(filePath, `${filePath}.v${version}.bak`);
+      console.log(`[FileStorage] Migrated ${filePath} from schema version ${version} to ${SCHEMA_VERSION}, backup kept as ${filePath}.v${version}.bak`);
+    }
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify({ schemaVersion: SCHEMA_VERSION, ...migrated }));
+    return migrated;
+  }
+}
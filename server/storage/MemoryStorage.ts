@@ -0,0 +1,174 @@
+// file: server/storage/MemoryStorage.ts
+import { ChatMessage } from '../../src/utils/protocol';
+import {
+  AccountRecord,
+  AccountRepository,
+  ChunkRecord,
+  ChunkRepository,
+  MessageRecord,
+  MessageRepository,
+  PlayerProfile,
+  PlayerRepository,
+  Storage,
+  TokenRecord,
+  TokenRepository,
+  WorldRecord,
+  WorldRepository
+} from './Storage';
+
+// Everything a storage holds, in the shape it is written to the storage file
+export interface StorageData {
+  players: PlayerProfile[];
+  worlds: WorldRecord[];
+  chunks: ChunkRecord[];
+  messages: MessageRecord[];
+  accounts: AccountRecord[];
+  tokens: TokenRecord[];
+}
+
+/**
+ * Storage that lives as long as the process, for tests, load tests and servers that don't need to remember anything.
+ * Records are copied in and out, so callers can't change stored data without saving it.
+ */
+export class MemoryStorage implements Storage {
+  private profiles: Map<string, PlayerProfile> = new Map();
+  private worldRecords: Map<string, WorldRecord> = new Map();
+  // Chunk records by world id, then by "x,y"
+  private chunkRecords: Map<string, Map<string, ChunkRecord>> = new Map();
+  // Messages by world id, oldest first
+  private messageRecords: Map<string, ChatMessage[]> = new Map();
+  private accountRecords: Map<string, AccountRecord> = new Map();
+  // Tokens by hash
+  private tokenRecords: Map<string, TokenRecord> = new Map();
+
+  public readonly players: PlayerRepository = {
+    get: (id) => this.copy(this.profiles.get(id)),
+    save: (profile) => {
+      this.profiles.set(profile.id, structuredClone(profile));
+      this.changed();
+    }
+  };
+
+  public readonly worlds: WorldRepository = {
+    get: (id) => this.copy(this.worldRecords.get(id)),
+    save: (world) => {
+      this.worldRecords.set(world.id, structuredClone(world));
+      this.changed();
+    }
+  };
+
+  public readonly chunks: ChunkRepository = {
+    getAll: (worldId) => Array.from(this.chunkRecords.get(worldId)?.values() ?? [], chunk => structuredClone(chunk)),
+    save: (chunk) => {
+      const chunks = this.chunkRecords.get(chunk.worldId) ?? new Map<string, ChunkRecord>();
+      chunks.set(`${chunk.x},${chunk.y}`, structuredClone(chunk));
+      this.chunkRecords.set(chunk.worldId, chunks);
+      this.changed();
+    },
+    deleteAll: (worldId) => {
+      if (this.chunkRecords.delete(worldId)) this.changed();
+    }
+  };
+
+  public readonly messages: MessageRepository = {
+    add: (worldId, message) => {
+      const messages = this.messageRecords.get(worldId) ?? [];
+      messages.push(structuredClone(message));
+      this.messageRecords.set(worldId, messages);
+      this.changed();
+    },
+    getRecent: (worldId, limit) => (this.messageRecords.get(worldId) ?? []).slice(-limit).map(message => structuredClone(message)),
+    deleteBefore: (timestamp) => {
+      let deleted = 0;
+      this.messageRecords.forEach((messages, worldId) => {
+        const kept = messages.filter(message => message.timestamp >= timestamp);
+        deleted += messages.length - kept.length;
+        this.messageRecords.set(worldId, kept);
+      });
+
+      if (deleted > 0) this.changed();
+      return deleted;
+    }
+  };
+
+  public readonly accounts: AccountRepository = {
+    get: (id) => this.copy(this.accountRecords.get(id)),
+    findByUsername: (username) => {
+      const name = username.toLowerCase();
+      return this.copy(Array.from(this.accountRecords.values()).find(account => account.username.toLowerCase() === name));
+    },
+    save: (account) => {
+      this.accountRecords.set(account.id, structuredClone(account));
+      this.changed();
+    }
+  };
+
+  public readonly tokens: TokenRepository = {
+    get: (tokenHash) => this.copy(this.tokenRecords.get(tokenHash)),
+    save: (token) => {
+      this.tokenRecords.set(token.tokenHash, structuredClone(token));
+      this.changed();
+    },
+    delete: (tokenHash) => {
+      const deleted = this.tokenRecords.delete(tokenHash);
+      if (deleted) this.changed();
+      return deleted;
+    },
+    deleteExpired: (timestamp) => {
+      const expired = Array.from(this.tokenRecords.values()).filter(token => token.expiresAt <= timestamp);
+      expired.forEach(token => this.tokenRecords.delete(token.tokenHash));
+
+      if (expired.length > 0) this.changed();
+      return expired.length;
+    }
+  };
+
+  constructor(data?: StorageData) {
+    if (!data) return;
+
+    data.players.forEach(profile => this.profiles.set(profile.id, profile));
+    data.worlds.forEach(world => this.worldRecords.set(world.id, world));
+    data.chunks.forEach(chunk => {
+      const chunks = this.chunkRecords.get(chunk.worldId) ?? new Map<string, ChunkRecord>();
+      chunks.set(`${chunk.x},${chunk.y}`, chunk);
+      this.chunkRecords.set(chunk.worldId, chunks);
+    });
+    data.messages
+      .sort((a, b) => a.message.timestamp - b.message.timestamp)
+      .forEach(({ worldId, message }) => {
+        const messages = this.messageRecords.get(worldId) ?? [];
+        messages.push(message);
+        this.messageRecords.set(worldId, messages);
+      });
+    data.accounts.forEach(account => this.accountRecords.set(account.id, account));
+    data.tokens.forEach(token => this.tokenRecords.set(token.tokenHash, token));
+  }
+
+  public flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  public flushSync(): void {}
+
+  /**
+   * Called after every change, for storages that need to write it somewhere
+   */
+  protected changed(): void {}
+
+  protected toData(): StorageData {
+    return {
+      players: Array.from(this.profiles.values()),
+      worlds: Array.from(this.worldRecords.values()),
+      chunks: Array.from(this.chunkRecords.values()).flatMap(chunks => Array.from(chunks.values())),
+      messages: Array.from(this.messageRecords).flatMap(([worldId, messages]) =>
+        messages.map(message => ({ worldId, message }))
+      ),
+      accounts: Array.from(this.accountRecords.values()),
+      tokens: Array.from(this.tokenRecords.values())
+    };
+  }
+
+  private copy<T>(record: T | undefined): T | null {
+    return record ? structuredClone(record) : null;
+  }
+}
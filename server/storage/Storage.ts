@@ -0,0 +1,118 @@
+// file: server/storage/Storage.ts
+import { ChunkDiff } from '../../src/utils/game';
+import { ChatMessage, SpawnPoint } from '../../src/utils/protocol';
+
+// What the server remembers about a player between sessions
+export interface PlayerProfile {
+  // Account id; guests get a new id every session, so only accounts have profiles
+  id: string;
+  username: string;
+  // World the player was last in, and where they were in every world they visited
+  lastWorldId: string;
+  locations: Record<string, SpawnPoint>;
+  createdAt: number;
+  lastSeenAt: number;
+  // Time spent in game over all sessions (ms)
+  playTime: number;
+}
+
+// A hosted world as it was when its chunks were last changed. Chunk changes refer to generated
+// element ids, so they only apply to chunks generated with the same seed and chunk size.
+export interface WorldRecord {
+  id: string;
+  seed: number;
+  chunkSize: number;
+  createdAt: number;
+}
+
+// The changes made to one chunk since it was generated
+export interface ChunkRecord {
+  worldId: string;
+  x: number;
+  y: number;
+  version: number;
+  diff: ChunkDiff;
+}
+
+export interface MessageRecord {
+  worldId: string;
+  message: ChatMessage;
+}
+
+export interface AccountRecord {
+  // Stable id, used as the player id whenever this account plays
+  id: string;
+  username: string;
+  createdAt: number;
+  // scrypt hash and salt, hex encoded
+  passwordHash: string;
+  salt: string;
+}
+
+// A login session of an account
+export interface TokenRecord {
+  // Only the SHA-256 of a token is kept, so a leaked file doesn't leak sessions
+  tokenHash: string;
+  accountId: string;
+  expiresAt: number;
+}
+
+export interface PlayerRepository {
+  get(id: string): PlayerProfile | null;
+  save(profile: PlayerProfile): void;
+}
+
+export interface WorldRepository {
+  get(id: string): WorldRecord | null;
+  save(world: WorldRecord): void;
+}
+
+export interface ChunkRepository {
+  // Every changed chunk of a world
+  getAll(worldId: string): ChunkRecord[];
+  save(chunk: ChunkRecord): void;
+  deleteAll(worldId: string): void;
+}
+
+export interface AccountRepository {
+  get(id: string): AccountRecord | null;
+  // Usernames are compared regardless of case
+  findByUsername(username: string): AccountRecord | null;
+  save(account: AccountRecord): void;
+}
+
+export interface TokenRepository {
+  get(tokenHash: string): TokenRecord | null;
+  save(token: TokenRecord): void;
+  // Returns whether the token existed
+  delete(tokenHash: string): boolean;
+  // Delete tokens that expired before a point in time; returns how many were deleted
+  deleteExpired(timestamp: number): number;
+}
+
+export interface MessageRepository {
+  add(worldId: string, message: ChatMessage): void;
+  // The latest messages of a world, oldest first
+  getRecent(worldId: string, limit: number): ChatMessage[];
+  // Delete messages of all worlds sent before a point in time; returns how many were deleted
+  deleteBefore(timestamp: number): number;
+}
+
+/**
+ * Everything the server keeps across restarts. GameServer and AccountStore only talk to this
+ * interface; MemoryStorage keeps data for the lifetime of the process, FileStorage in a JSON file.
+ * Calls are synchronous, so game state never waits for storage halfway through handling a message;
+ * only flush() touches the disk, in the background.
+ */
+export interface Storage {
+  readonly players: PlayerRepository;
+  readonly worlds: WorldRepository;
+  readonly chunks: ChunkRepository;
+  readonly messages: MessageRepository;
+  readonly accounts: AccountRepository;
+  readonly tokens: TokenRepository;
+  // Make everything saved so far survive a restart, without blocking the server while writing
+  flush(): Promise<void>;
+  // Same, but written before returning; for shutdown, after which flush() no longer writes
+  flushSync(): void;
+}
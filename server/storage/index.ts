@@ -0,0 +1,33 @@
+// file: server/storage/index.ts
+import { ServerConfig } from '../config';
+import { FileStorage } from './FileStorage';
+import { MemoryStorage } from './MemoryStorage';
+import { Storage } from './Storage';
+
+export type {
+  Storage,
+  PlayerProfile,
+  WorldRecord,
+  ChunkRecord,
+  MessageRecord,
+  AccountRecord,
+  TokenRecord,
+  PlayerRepository,
+  WorldRepository,
+  ChunkRepository,
+  MessageRepository,
+  AccountRepository,
+  TokenRepository
+} from './Storage';
+export type { StorageData } from './MemoryStorage';
+export type { LegacyFiles } from './FileStorage';
+export { MemoryStorage, FileStorage };
+export { MIGRATIONS, SCHEMA_VERSION, MigrationError } from './migrations';
+
+/**
+ * Pick the storage backend from the config: a file if one is configured, otherwise memory
+ */
+export const createStorage = (config: ServerConfig): Storage =>
+  config.storageFile
+    ? new FileStorage(config.storageFile, { players: config.legacyPlayersFile, accounts: config.legacyAccountsFile })
+    : new MemoryStorage();
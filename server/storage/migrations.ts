@@ -0,0 +1,62 @@
+// file: server/storage/migrations.ts
+// Schema changes of the storage file. A file records the version it was written with; older files
+// are brought up to date by running every newer migration in order when the server starts.
+//
+// To change the schema, append a migration with the next version number. Never edit one that has shipped:
+// files already migrated by it won't run it again.
+
+// Storage file contents before they are known to match the current schema
+export type StorageDocument = Record<string, unknown>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(document: StorageDocument): StorageDocument;
+}
+
+export class MigrationError extends Error {}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Keep players, worlds, chunk changes and chat messages',
+    // Player profiles files written before there was a storage schema (data/players.json) only had players
+    migrate: (document) => ({
+      players: Array.isArray(document.players) ? document.players : [],
+      worlds: [],
+      chunks: [],
+      messages: []
+    })
+  },
+  {
+    version: 2,
+    description: 'Keep accounts and session tokens',
+    // Accounts were kept in a file of their own (data/accounts.json), which FileStorage adds to older documents
+    migrate: (document) => ({
+      ...document,
+      accounts: Array.isArray(document.accounts) ? document.accounts : [],
+      tokens: Array.isArray(document.tokens) ? document.tokens : []
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a document written with an older schema version up to date. Throws a MigrationError for
+ * documents from a newer server, which this one can't read without losing data.
+ */
+export const migrate = (document: StorageDocument, fromVersion: number): StorageDocument => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Storage was written with schema version ${fromVersion}, this server only knows versions up to ${SCHEMA_VERSION}`
+    );
+  }
+
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => {
+      console.log(`[Storage] Migrating to schema version ${migration.version}: ${migration.description}`);
+      return migration.migrate(migrated);
+    }, document);
+};
@@ -1,6 +1,6 @@
 // file: src/components/game/ChatSystem.tsx
 import React, { useState, useEffect, useRef } from 'react';
-import multiplayerClient from '../services/MultiPlayerClient';
+import multiplayerClient, { PlayerJoinReason, PlayerLeaveReason, RemotePlayer } from '../services/MultiPlayerClient';
 
 interface ChatMessage {
   id: string;
@@ -15,9 +15,11 @@ const ChatSystem: React.FC = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState<string>('');
   const [isOpen, setIsOpen] = useState<boolean>(false);
-  const [playerNames, setPlayerNames] = useState<Map<string, string>>(new Map());
+  const [playerNames, setPlayerNames] = useState<Map<string, string>>(() => new Map(
+    multiplayerClient.getRemotePlayers().map(player => [player.id, player.username])
+  ));
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
-  const playerNamesRef = useRef<Map<string, string>>(new Map());
+  const playerNamesRef = useRef<Map<string, string>>(playerNames);
   const isOpenRef = useRef<boolean>(false);
 
   // Sync refs with state
@@ -71,10 +73,11 @@ const ChatSystem: React.FC = () => {
       });
     };
     
-    const handlePlayerJoin = (player: any) => {
+    const handlePlayerJoin = (player: RemotePlayer, reason: PlayerJoinReason) => {
       console.log(`[ChatSystem] Player joined: ${player.username} (${player.id})`);
       
-      if (player.id !== multiplayerClient.getPlayerId()) {
+      // Players coming into range were already in the game
+      if (reason === 'joined' && player.id !== multiplayerClient.getPlayerId()) {
         setMessages(prev => {
           const joinMessage = {
             id: `join_${Date.now()}_${player.id}`,
@@ -95,10 +98,13 @@ const ChatSystem: React.FC = () => {
       });
     };
     
-    const handlePlayerLeave = (playerId: string) => {
+    const handlePlayerLeave = (playerId: string, reason: PlayerLeaveReason) => {
       const playerName = playerNamesRef.current.get(playerId) || 'Unknown player';
       console.log(`[ChatSystem] Player left: ${playerName} (${playerId})`);
       
+      // Keep the name of players that only moved out of range, their chat history still refers to them
+      if (reason !== 'left') return;
+      
       setMessages(prev => {
         const leaveMessage = {
           id: `leave_${Date.now()}_${playerId}`,
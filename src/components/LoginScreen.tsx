@@ -1,9 +1,28 @@
 // file: src/components/game/ui/LoginScreen.tsx
-import  { useEffect, useState } from 'react';
+import  { useCallback, useEffect, useState } from 'react';
+import { MOCK_SERVER_URL } from '../services/mock/MockServer';
+import multiplayerClient, { AccountSession } from '../services/MultiPlayerClient';
+import serverList, { DEFAULT_SERVER_URL, SERVER_URL_PATTERN } from '../services/ServerList';
+import { parseRecording, SessionRecording } from '../services/SessionRecorder';
+import { MIN_PASSWORD_LENGTH, WorldInfo } from '../utils/protocol';
+import ServerBrowser from './ServerBrowser';
 
+// Play without an account, or log in to / create one first
+type AuthMode = 'guest' | 'login' | 'register';
+
+export interface LoginDetails {
+  username: string;
+  serverUrl: string;
+  // Null when the server's world list couldn't be loaded; the default world is joined then
+  world: WorldInfo | null;
+  // Session token of the logged-in account, null for guests
+  authToken: string | null;
+}
 
 interface LoginScreenProps {
-  onLogin: (username: string, serverUrl: string) => void;
+  onLogin: (details: LoginDetails) => void;
+  // Watch a recorded session instead of playing
+  onReplay?: (recording: SessionRecording) => void;
   isConnecting?: boolean;
   serverUrl?: string;
   errorMessage?: string;
@@ -12,8 +31,9 @@ interface LoginScreenProps {
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ 
   onLogin, 
+  onReplay,
   isConnecting = false, 
-  serverUrl = 'http://localhost:3001',
+  serverUrl = DEFAULT_SERVER_URL,
   errorMessage = '',
   defaultUsername = ''
 }) => {
@@ -21,6 +41,117 @@ const LoginScreen: React.FC<LoginScreenProps> = ({
   const [serverAddress, setServerAddress] = useState<string>(serverUrl);
   const [validationError, setValidationError] = useState<string>('');
   const [showServerOptions, setShowServerOptions] = useState<boolean>(false);
+  const [offlineMode, setOfflineMode] = useState<boolean>(serverUrl === MOCK_SERVER_URL);
+  
+  // Accounts
+  const [authMode, setAuthMode] = useState<AuthMode>('guest');
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [account, setAccount] = useState<AccountSession | null>(null);
+  const [isAuthenticating, setIsAuthenticating] = useState<boolean>(false);
+  const isBusy = isConnecting || isAuthenticating;
+  
+  // World lobby
+  const [worlds, setWorlds] = useState<WorldInfo[]>([]);
+  const [selectedWorldId, setSelectedWorldId] = useState<string>('');
+  const [isLoadingWorlds, setIsLoadingWorlds] = useState<boolean>(false);
+  const [worldsError, setWorldsError] = useState<string>('');
+  
+  const loadWorlds = useCallback((address: string) => {
+    let cancelled = false;
+    setIsLoadingWorlds(true);
+    setWorldsError('');
+    
+    multiplayerClient.fetchWorlds(address)
+      .then(list => {
+        if (cancelled) return;
+        setWorlds(list);
+        // Keep the current pick if the server still has it, otherwise take the first world with room
+        setSelectedWorldId(current =>
+          list.some(world => world.id === current)
+            ? current
+            : (list.find(world => world.playerCount < world.maxPlayers) ?? list[0])?.id ?? ''
+        );
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setWorlds([]);
+        setWorldsError(`Couldn't load worlds: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingWorlds(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  
+  // Refresh the world list when the server changes; wait for the address to stop changing while it's typed
+  useEffect(() => {
+    if (offlineMode || !SERVER_URL_PATTERN.test(serverAddress)) {
+      setWorlds([]);
+      setWorldsError('');
+      return;
+    }
+    
+    let cancelLoad: (() => void) | null = null;
+    const timeout = setTimeout(() => {
+      cancelLoad = loadWorlds(serverAddress);
+    }, 500);
+    
+    return () => {
+      clearTimeout(timeout);
+      cancelLoad?.();
+    };
+  }, [serverAddress, offlineMode, loadWorlds]);
+  
+  // Log in automatically with the session token saved for the selected server
+  useEffect(() => {
+    setAccount(null);
+    
+    const saved = offlineMode ? null : serverList.getAccount(serverAddress);
+    if (!saved) return;
+    
+    let cancelled = false;
+    setIsAuthenticating(true);
+    
+    multiplayerClient.resumeAccount(serverAddress, saved.token)
+      .then(session => {
+        if (cancelled) return;
+        serverList.setAccount(serverAddress, session);
+        setAccount(session);
+        // Continue in the world the account last played in
+        if (session.lastWorldId) {
+          setSelectedWorldId(session.lastWorldId);
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // The token is kept: the server may just be unreachable right now
+        console.warn('[LoginScreen] Automatic login failed:', error);
+        setUsername(saved.username);
+        setAuthMode('login');
+      })
+      .finally(() => {
+        if (!cancelled) setIsAuthenticating(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [serverAddress, offlineMode]);
+  
+  const handleLogout = () => {
+    if (!account) return;
+    
+    multiplayerClient.logout(serverAddress, account.token)
+      .catch(error => console.warn('[LoginScreen] Logout request failed:', error));
+    serverList.setAccount(serverAddress, null);
+    setAccount(null);
+    setPassword('');
+    setConfirmPassword('');
+  };
   
   // Reset validation error when external error message changes
   useEffect(() => {
@@ -29,35 +160,96 @@ const LoginScreen: React.FC<LoginScreenProps> = ({
     }
   }, [errorMessage]);
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleRecordingFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onReplay) return;
+    
+    try {
+      const recording = parseRecording(await file.text());
+      setValidationError('');
+      onReplay(recording);
+    } catch (error) {
+      setValidationError(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    // Server address validation - simple regex for URL format
+    if (showServerOptions && !offlineMode && !SERVER_URL_PATTERN.test(serverAddress)) {
+      setValidationError('Please enter a valid server URL (http://, https://, ws:// or wss://)');
+      return;
+    }
+    
+    const selectedWorld = offlineMode ? null : worlds.find(world => world.id === selectedWorldId) ?? null;
+    if (selectedWorld && selectedWorld.playerCount >= selectedWorld.maxPlayers) {
+      setValidationError(`${selectedWorld.name} is full, please pick another world`);
+      return;
+    }
+    
+    const targetUrl = offlineMode ? MOCK_SERVER_URL : serverAddress;
+    
+    // Already logged in
+    if (account && !offlineMode) {
+      setValidationError('');
+      onLogin({ username: account.username, serverUrl: targetUrl, world: selectedWorld, authToken: account.token });
+      return;
+    }
+    
     if (!username.trim()) {
       setValidationError('Please enter a username');
       return;
     }
     
-    if (username.length < 3) {
+    if (username.trim().length < 3) {
       setValidationError('Username must be at least 3 characters');
       return;
     }
     
-    if (username.length > 16) {
+    if (username.trim().length > 16) {
       setValidationError('Username must be at most 16 characters');
       return;
     }
     
-    // Server address validation - simple regex for URL format
-    if (showServerOptions && !serverAddress.match(/^https?:\/\/.+/)) {
-      setValidationError('Please enter a valid server URL (http:// or https://)');
+    if (authMode === 'guest' || offlineMode) {
+      // Clear any previous errors
+      setValidationError('');
+      
+      // Call the login function
+      onLogin({ username: username.trim(), serverUrl: targetUrl, world: selectedWorld, authToken: null });
+      return;
+    }
+    
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    
+    if (authMode === 'register' && password !== confirmPassword) {
+      setValidationError('Passwords do not match');
       return;
     }
     
-    // Clear any previous errors
     setValidationError('');
+    setIsAuthenticating(true);
     
-    // Call the login function
-    onLogin(username, serverAddress);
+    try {
+      const session = authMode === 'register'
+        ? await multiplayerClient.register(serverAddress, username.trim(), password)
+        : await multiplayerClient.login(serverAddress, username.trim(), password);
+      
+      serverList.setAccount(serverAddress, session);
+      setAccount(session);
+      setPassword('');
+      setConfirmPassword('');
+      onLogin({ username: session.username, serverUrl: targetUrl, world: selectedWorld, authToken: session.token });
+    } catch (error) {
+      setValidationError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsAuthenticating(false);
+    }
   };
   
   return (
@@ -68,36 +260,167 @@ const LoginScreen: React.FC<LoginScreenProps> = ({
         
         <div style={styles.formContainer}>
           <form onSubmit={handleSubmit} style={styles.form}>
-            <div style={styles.inputGroup}>
-              <label htmlFor="username" style={styles.label}>
-                Choose Your Username:
-              </label>
-              <input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                style={styles.input}
-                placeholder="Enter username"
-                disabled={isConnecting}
-                autoFocus
-              />
-            </div>
+            {account && !offlineMode ? (
+              <div style={styles.accountBox}>
+                <span>Logged in as <strong>{account.username}</strong></span>
+                <button type="button" onClick={handleLogout} style={styles.toggleButton} disabled={isBusy}>
+                  Log out
+                </button>
+              </div>
+            ) : (
+              <>
+                {!offlineMode && (
+                  <div style={styles.authTabs}>
+                    {(['guest', 'login', 'register'] as AuthMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => {
+                          setAuthMode(mode);
+                          setValidationError('');
+                        }}
+                        style={{ ...styles.authTab, ...(authMode === mode ? styles.authTabActive : {}) }}
+                        disabled={isBusy}
+                      >
+                        {mode === 'guest' ? 'Guest' : mode === 'login' ? 'Log In' : 'Register'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                
+                <div style={styles.inputGroup}>
+                  <label htmlFor="username" style={styles.label}>
+                    {authMode === 'guest' || offlineMode ? 'Choose Your Username:' : 'Username:'}
+                  </label>
+                  <input
+                    id="username"
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    style={styles.input}
+                    placeholder="Enter username"
+                    disabled={isBusy}
+                    autoFocus
+                  />
+                </div>
+                
+                {authMode !== 'guest' && !offlineMode && (
+                  <div style={styles.inputGroup}>
+                    <label htmlFor="password" style={styles.label}>
+                      Password:
+                    </label>
+                    <input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      style={styles.input}
+                      placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                      autoComplete={authMode === 'register' ? 'new-password' : 'current-password'}
+                      disabled={isBusy}
+                    />
+                  </div>
+                )}
+                
+                {authMode === 'register' && !offlineMode && (
+                  <div style={styles.inputGroup}>
+                    <label htmlFor="confirmPassword" style={styles.label}>
+                      Confirm Password:
+                    </label>
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      style={styles.input}
+                      autoComplete="new-password"
+                      disabled={isBusy}
+                    />
+                  </div>
+                )}
+              </>
+            )}
             
             {showServerOptions && (
               <div style={styles.inputGroup}>
-                <label htmlFor="serverAddress" style={styles.label}>
-                  Server Address:
-                </label>
-                <input
-                  id="serverAddress"
-                  type="text"
-                  value={serverAddress}
-                  onChange={(e) => setServerAddress(e.target.value)}
-                  style={styles.input}
-                  placeholder="http://localhost:3001"
-                  disabled={isConnecting}
+                <ServerBrowser
+                  selectedUrl={serverAddress}
+                  onSelect={setServerAddress}
+                  disabled={isConnecting || offlineMode}
                 />
+                <label style={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={offlineMode}
+                    onChange={(e) => setOfflineMode(e.target.checked)}
+                    disabled={isConnecting}
+                  />
+                  Play offline with simulated players
+                </label>
+                {onReplay && (
+                  <label style={styles.checkboxLabel}>
+                    Replay a recording:
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={handleRecordingFile}
+                      disabled={isConnecting}
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+            
+            {!offlineMode && (
+              <div style={styles.inputGroup}>
+                <div style={styles.worldHeader}>
+                  <span style={styles.label}>Choose a World:</span>
+                  <button
+                    type="button"
+                    onClick={() => loadWorlds(serverAddress)}
+                    style={styles.toggleButton}
+                    disabled={isConnecting || isLoadingWorlds}
+                  >
+                    Refresh
+                  </button>
+                </div>
+                
+                {isLoadingWorlds && worlds.length === 0 && (
+                  <div style={styles.worldStatus}>Loading worlds...</div>
+                )}
+                
+                {worldsError && (
+                  <div style={styles.worldStatus}>{worldsError}</div>
+                )}
+                
+                <div style={styles.worldList}>
+                  {worlds.map(world => {
+                    const isFull = world.playerCount >= world.maxPlayers;
+                    const isSelected = world.id === selectedWorldId;
+                    
+                    return (
+                      <button
+                        key={world.id}
+                        type="button"
+                        onClick={() => setSelectedWorldId(world.id)}
+                        disabled={isConnecting || isFull}
+                        style={{
+                          ...styles.worldItem,
+                          ...(isSelected ? styles.worldItemSelected : {}),
+                          ...(isFull ? styles.worldItemFull : {})
+                        }}
+                      >
+                        <div style={styles.worldItemRow}>
+                          <strong>{world.name}</strong>
+                          <span>{isFull ? 'Full' : `${world.playerCount}/${world.maxPlayers} players`}</span>
+                        </div>
+                        <div style={styles.worldItemDetails}>
+                          {world.description} · {world.config.worldWidth}×{world.config.worldHeight}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             )}
             
@@ -121,9 +444,15 @@ const LoginScreen: React.FC<LoginScreenProps> = ({
             <button 
               type="submit" 
               style={styles.button}
-              disabled={isConnecting}
+              disabled={isBusy}
             >
-              {isConnecting ? 'Connecting...' : 'Enter Game'}
+              {isConnecting
+                ? 'Connecting...'
+                : isAuthenticating
+                  ? 'Logging in...'
+                  : authMode === 'register' && !account && !offlineMode
+                    ? 'Register & Enter'
+                    : 'Enter Game'}
             </button>
           </form>
         </div>
@@ -200,6 +529,91 @@ const styles = {
     fontSize: '16px',
     outline: 'none',
   },
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '8px',
+    color: '#bdc3c7',
+    fontSize: '12px',
+    textAlign: 'left' as const,
+  },
+  accountBox: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    width: '100%',
+    marginBottom: '16px',
+    color: '#ecf0f1',
+    fontSize: '14px',
+  },
+  authTabs: {
+    display: 'flex',
+    width: '100%',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  authTab: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    color: '#bdc3c7',
+    border: '2px solid #7f8c8d',
+    borderRadius: '6px',
+    padding: '8px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    fontFamily: "'Press Start 2P', system-ui, sans-serif",
+  },
+  authTabActive: {
+    borderColor: '#3498db',
+    color: '#f0f6fc',
+    backgroundColor: '#34495e',
+  },
+  worldHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  worldStatus: {
+    color: '#bdc3c7',
+    fontSize: '12px',
+    marginBottom: '8px',
+    textAlign: 'left' as const,
+  },
+  worldList: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '8px',
+  },
+  worldItem: {
+    width: '100%',
+    padding: '10px 12px',
+    backgroundColor: '#34495e',
+    border: '2px solid #7f8c8d',
+    borderRadius: '6px',
+    color: '#ecf0f1',
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+    fontFamily: 'system-ui, sans-serif',
+  },
+  worldItemSelected: {
+    borderColor: '#3498db',
+    backgroundColor: '#3d5a75',
+  },
+  worldItemFull: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  worldItemRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    fontSize: '14px',
+    marginBottom: '4px',
+  },
+  worldItemDetails: {
+    color: '#bdc3c7',
+    fontSize: '12px',
+  },
   serverToggle: {
     marginBottom: '16px',
     width: '100%',
@@ -0,0 +1,184 @@
+// file: src/components/NetworkDiagnostics.tsx
+import React, { useState, useEffect } from 'react';
+import multiplayerClient from '../services/MultiPlayerClient';
+import { NetworkStatsSnapshot } from '../services/NetworkStats';
+import { SessionRecording } from '../services/SessionRecorder';
+
+interface NetworkDiagnosticsProps {
+  // Key that shows and hides the overlay
+  toggleKey?: string;
+}
+
+const GRAPH_WIDTH = 180;
+const GRAPH_HEIGHT = 48;
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+const formatMs = (ms: number | null): string =>
+  ms === null ? '-' : `${Math.round(ms)} ms`;
+
+// Save a recording through the browser's download mechanism
+const downloadRecording = (recording: SessionRecording): void => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const timestamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `forest-explorer-${timestamp}.json`;
+  link.click();
+
+  // Revoked once the download has had a chance to start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const NetworkDiagnostics: React.FC<NetworkDiagnosticsProps> = ({ toggleKey = 'F3' }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [stats, setStats] = useState<NetworkStatsSnapshot>(() => multiplayerClient.getNetworkStats());
+  const [isRecording, setIsRecording] = useState<boolean>(() => multiplayerClient.isRecording());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === toggleKey) {
+        e.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [toggleKey]);
+
+  // Only poll while visible
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setStats(multiplayerClient.getNetworkStats());
+    const interval = setInterval(() => setStats(multiplayerClient.getNetworkStats()), 500);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  // Recordings of every message in and out, to attach to bug reports
+  const toggleRecording = () => {
+    if (multiplayerClient.isRecording()) {
+      const recording = multiplayerClient.stopRecording();
+      if (recording) downloadRecording(recording);
+    } else {
+      multiplayerClient.startRecording();
+    }
+    setIsRecording(multiplayerClient.isRecording());
+  };
+
+  if (!isOpen) return null;
+
+  // History graph: bars for incoming traffic, a line for round trip time
+  const history = stats.history;
+  const step = history.length > 1 ? GRAPH_WIDTH / (history.length - 1) : GRAPH_WIDTH;
+  const maxBytes = Math.max(1, ...history.map(sample => sample.bytesIn));
+  const maxRoundTrip = Math.max(1, ...history.map(sample => sample.roundTripTime ?? 0));
+
+  const roundTripPoints = history
+    .map((sample, i) => sample.roundTripTime === null
+      ? null
+      : `${(i * step).toFixed(1)},${(GRAPH_HEIGHT - (sample.roundTripTime / maxRoundTrip) * GRAPH_HEIGHT).toFixed(1)}`)
+    .filter((point): point is string => point !== null)
+    .join(' ');
+
+  return (
+    <div style={styles.overlay}>
+      <div style={styles.title}>Network ({toggleKey} to hide)</div>
+      <div style={styles.row}><span>Round trip</span><span>{formatMs(stats.roundTripTime)}</span></div>
+      <div style={styles.row}><span>Jitter</span><span>{formatMs(stats.jitter)}</span></div>
+      <div style={styles.row}>
+        <span>Messages in/out</span>
+        <span>{stats.messagesInPerSecond}/s · {stats.messagesOutPerSecond}/s</span>
+      </div>
+      <div style={styles.row}>
+        <span>Bytes in/out</span>
+        <span>{formatBytes(stats.bytesInPerSecond)}/s · {formatBytes(stats.bytesOutPerSecond)}/s</span>
+      </div>
+      <div style={styles.row}><span>Dropped</span><span>{stats.droppedUpdates}</span></div>
+      <div style={styles.row}><span>Out of order</span><span>{stats.outOfOrderUpdates}</span></div>
+      <div style={styles.row}><span>Corrections</span><span>{stats.corrections}</span></div>
+
+      <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} style={styles.graph}>
+        {history.map((sample, i) => {
+          const height = (sample.bytesIn / maxBytes) * GRAPH_HEIGHT;
+          return (
+            <rect
+              key={sample.time}
+              x={i * step - 1}
+              y={GRAPH_HEIGHT - height}
+              width={2}
+              height={height}
+              fill="rgba(96, 165, 250, 0.6)"
+            />
+          );
+        })}
+        {roundTripPoints && (
+          <polyline points={roundTripPoints} fill="none" stroke="#facc15" strokeWidth={1.5} />
+        )}
+      </svg>
+      <div style={styles.legend}>
+        <span style={{ color: '#60a5fa' }}>■ bytes in</span>
+        <span style={{ color: '#facc15' }}>— round trip (max {formatMs(maxRoundTrip)})</span>
+      </div>
+      {!multiplayerClient.isReplaying() && (
+        <button type="button" style={styles.recordButton} onClick={toggleRecording}>
+          {isRecording ? '■ Stop & download recording' : '● Record session'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const styles = {
+  overlay: {
+    position: 'absolute' as const,
+    top: '60px',
+    left: '16px',
+    width: `${GRAPH_WIDTH + 24}px`,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: 'white',
+    padding: '8px 12px',
+    borderRadius: '8px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    zIndex: 99999,
+  },
+  title: {
+    fontWeight: 'bold',
+    marginBottom: '6px',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    marginBottom: '2px',
+  },
+  graph: {
+    display: 'block',
+    marginTop: '6px',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  legend: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    marginTop: '4px',
+    fontSize: '9px',
+  },
+  recordButton: {
+    width: '100%',
+    marginTop: '6px',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    color: 'white',
+    border: '1px solid rgba(255,255,255,0.2)',
+    borderRadius: '4px',
+    padding: '3px 0',
+    cursor: 'pointer',
+    fontFamily: 'monospace',
+    fontSize: '10px',
+  },
+};
+
+export default NetworkDiagnostics;
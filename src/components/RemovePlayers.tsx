@@ -1,16 +1,58 @@
 // src/components/game/RemotePlayers.tsx
 import React, { useState, useEffect, useRef } from 'react';
 import { Position, Direction } from '../utils/game';
+import { DEFAULT_INTERPOLATION_CONFIG, InterpolationConfig, SnapshotBuffer } from '../utils/interpolation';
 import multiplayerClient, { RemotePlayer } from '../services/MultiPlayerClient';
 
+// Players nothing was heard of (moves or server heartbeats) for STALE_AFTER ms fade out, and are dropped after
+// REMOVE_AFTER. The server normally sends player:left well before that; this covers a leave that never arrived.
+const STALE_AFTER = 12000;
+const REMOVE_AFTER = 45000;
+const MIN_STALE_OPACITY = 0.3;
+const STALENESS_CHECK_INTERVAL = 1000;
+
+// Fades linearly from fully visible at STALE_AFTER to MIN_STALE_OPACITY at REMOVE_AFTER
+const getStaleOpacity = (silentFor: number): number => {
+  const progress = Math.min(1, (silentFor - STALE_AFTER) / (REMOVE_AFTER - STALE_AFTER));
+  return 1 - progress * (1 - MIN_STALE_OPACITY);
+};
+
 interface RemotePlayersProps {
   cameraPosition: Position;
+  interpolation?: Partial<InterpolationConfig>;
 }
 
-const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition }) => {
-  const [players, setPlayers] = useState<Map<string, RemotePlayer>>(new Map());
+const createBuffer = (player: RemotePlayer, bufferSize: number): SnapshotBuffer => {
+  const buffer = new SnapshotBuffer(bufferSize);
+  buffer.push({
+    timestamp: player.lastUpdate,
+    position: player.position,
+    direction: player.direction,
+    isMoving: player.isMoving
+  });
+  return buffer;
+};
+
+const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition, interpolation }) => {
+  const { delay, maxExtrapolation, bufferSize } = { ...DEFAULT_INTERPOLATION_CONFIG, ...interpolation };
+  
+  // Start from the players the client already knows about (they may have joined before this mounted)
+  const [players, setPlayers] = useState<Map<string, RemotePlayer>>(() => new Map(
+    multiplayerClient.getRemotePlayers().map(player => [player.id, { ...player, animationFrame: 0 }])
+  ));
   const animationIntervalRef = useRef<number | null>(null);
   
+  // Server time each player was last heard of, and the opacity of those that have gone quiet
+  const lastSeenRef = useRef<Map<string, number>>(new Map(
+    multiplayerClient.getRemotePlayers().map(player => [player.id, multiplayerClient.serverNow()])
+  ));
+  const [staleOpacities, setStaleOpacities] = useState<Record<string, number>>({});
+  
+  // Movement snapshots per player, sampled every frame to get the rendered position
+  const buffersRef = useRef<Map<string, SnapshotBuffer>>(new Map(
+    multiplayerClient.getRemotePlayers().map(player => [player.id, createBuffer(player, bufferSize)])
+  ));
+  
   useEffect(() => {
     // Handler for new players joining
     const handlePlayerJoin = (player: RemotePlayer) => {
@@ -23,12 +65,17 @@ const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition }) => {
         newPlayers.set(player.id, player);
         return newPlayers;
       });
+      buffersRef.current.set(player.id, createBuffer(player, bufferSize));
+      // The server just told us about them, however long ago their last move was
+      lastSeenRef.current.set(player.id, multiplayerClient.serverNow());
       console.log(`Player joined: ${player.username} (${player.id})`);
     };
     
     // Handler for players leaving
     const handlePlayerLeave = (playerId: string) => {
       console.log(`[RemotePlayers] Player left: ${playerId}`);
+      buffersRef.current.delete(playerId);
+      lastSeenRef.current.delete(playerId);
       
       setPlayers(prevPlayers => {
         if (!prevPlayers.has(playerId)) {
@@ -48,37 +95,34 @@ const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition }) => {
       playerId: string, 
       position: Position, 
       direction: Direction, 
-      isMoving: boolean
+      isMoving: boolean,
+      timestamp: number
     ) => {
-      // Log occasionally to avoid spamming
-      if (Math.random() < 0.05) {
-        console.log(`[RemotePlayers] Player ${playerId} moved to (${position.x.toFixed(1)}, ${position.y.toFixed(1)})`);
+      const buffer = buffersRef.current.get(playerId);
+      if (!buffer) {
+        console.warn(`[RemotePlayers] Received movement for unknown player: ${playerId}`);
+        return;
       }
       
-      setPlayers(prevPlayers => {
-        const player = prevPlayers.get(playerId);
-        
-        if (!player) {
-          console.warn(`[RemotePlayers] Received movement for unknown player: ${playerId}`);
-          return prevPlayers;
+      // Rendered on the next frame by the interpolation loop
+      buffer.push({ timestamp, position, direction, isMoving });
+      lastSeenRef.current.set(playerId, Math.max(lastSeenRef.current.get(playerId) ?? 0, timestamp));
+    };
+    
+    // Idle players don't move, the server's heartbeat vouches for them instead
+    const handlePlayerHeartbeat = (playerIds: string[], timestamp: number) => {
+      playerIds.forEach(id => {
+        const lastSeen = lastSeenRef.current.get(id);
+        if (lastSeen !== undefined && timestamp > lastSeen) {
+          lastSeenRef.current.set(id, timestamp);
         }
-        
-        const newPlayers = new Map(prevPlayers);
-        newPlayers.set(playerId, {
-          ...player,
-          position,
-          direction,
-          isMoving,
-          lastUpdate: Date.now()
-        });
-        
-        return newPlayers;
       });
     };
     // Register event handlers
     multiplayerClient.onPlayerJoin(handlePlayerJoin);
     multiplayerClient.onPlayerLeave(handlePlayerLeave);
     multiplayerClient.onPlayerMove(handlePlayerMove);
+    multiplayerClient.onPlayerHeartbeat(handlePlayerHeartbeat);
     
     // Animation for other players
     animationIntervalRef.current = window.setInterval(() => {
@@ -110,13 +154,88 @@ const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition }) => {
       multiplayerClient.offPlayerJoin(handlePlayerJoin);
       multiplayerClient.offPlayerLeave(handlePlayerLeave);
       multiplayerClient.offPlayerMove(handlePlayerMove);
+      multiplayerClient.offPlayerHeartbeat(handlePlayerHeartbeat);
       
       if (animationIntervalRef.current !== null) {
         clearInterval(animationIntervalRef.current);
       }
     };
+  }, [bufferSize]);
+  
+  // Staleness policy: fade out players that went quiet, then drop them
+  useEffect(() => {
+    const checkStaleness = () => {
+      // While we are the ones disconnected, silence says nothing about the other players
+      if (multiplayerClient.getConnectionState() !== 'connected') return;
+      
+      const now = multiplayerClient.serverNow();
+      const opacities: Record<string, number> = {};
+      
+      lastSeenRef.current.forEach((lastSeen, id) => {
+        const silentFor = now - lastSeen;
+        if (silentFor > REMOVE_AFTER) {
+          // Comes back through handlePlayerLeave, which forgets the player here too
+          multiplayerClient.dropStalePlayer(id);
+        } else if (silentFor > STALE_AFTER) {
+          opacities[id] = getStaleOpacity(silentFor);
+        }
+      });
+      
+      setStaleOpacities(prev => {
+        const ids = Object.keys(opacities);
+        const unchanged = ids.length === Object.keys(prev).length && ids.every(id => prev[id] === opacities[id]);
+        return unchanged ? prev : opacities;
+      });
+    };
+    
+    const interval = window.setInterval(checkStaleness, STALENESS_CHECK_INTERVAL);
+    return () => clearInterval(interval);
   }, []);
   
+  // Interpolation loop: render every remote player `delay` ms in the past
+  useEffect(() => {
+    let animationFrameId: number;
+    
+    const interpolate = () => {
+      // Snapshot timestamps are server time, so sample on the synchronized clock
+      const renderTime = multiplayerClient.serverNow() - delay;
+      
+      setPlayers(prevPlayers => {
+        if (prevPlayers.size === 0) return prevPlayers;
+        
+        let changed = false;
+        const newPlayers = new Map(prevPlayers);
+        
+        newPlayers.forEach((player, id) => {
+          const sample = buffersRef.current.get(id)?.sample(renderTime, maxExtrapolation);
+          if (!sample) return;
+          
+          if (
+            sample.position.x !== player.position.x ||
+            sample.position.y !== player.position.y ||
+            sample.direction !== player.direction ||
+            sample.isMoving !== player.isMoving
+          ) {
+            changed = true;
+            newPlayers.set(id, {
+              ...player,
+              position: sample.position,
+              direction: sample.direction,
+              isMoving: sample.isMoving
+            });
+          }
+        });
+        
+        return changed ? newPlayers : prevPlayers;
+      });
+      
+      animationFrameId = requestAnimationFrame(interpolate);
+    };
+    
+    animationFrameId = requestAnimationFrame(interpolate);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [delay, maxExtrapolation]);
+  
   // Render remote player character
   const renderPlayerCharacter = (player: RemotePlayer) => {
     // Calculate screen position by applying camera offset
@@ -142,7 +261,9 @@ const RemotePlayers: React.FC<RemotePlayersProps> = ({ cameraPosition }) => {
           height: '64px',
           left: `${screenX}px`,
           top: `${screenY}px`,
-          zIndex: Math.floor(player.position.y + 32)
+          zIndex: Math.floor(player.position.y + 32),
+          opacity: staleOpacities[player.id] ?? 1,
+          transition: 'opacity 1s linear'
         }}
       >
         <div style={{
@@ -0,0 +1,112 @@
+// file: src/components/ReplayControls.tsx
+import React, { useState, useEffect } from 'react';
+import { ReplayState, SessionReplay } from '../services/SessionReplay';
+
+interface ReplayControlsProps {
+  replay: SessionReplay;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ replay, onExit }) => {
+  const [state, setState] = useState<ReplayState>(() => replay.getState());
+
+  useEffect(() => {
+    setState(replay.getState());
+    return replay.subscribe(setState);
+  }, [replay]);
+
+  // The position moves on its own while playing
+  useEffect(() => {
+    if (!state.playing) return;
+
+    const interval = setInterval(() => setState(replay.getState()), 200);
+    return () => clearInterval(interval);
+  }, [replay, state.playing]);
+
+  return (
+    <div style={styles.bar}>
+      <button
+        type="button"
+        style={styles.button}
+        onClick={() => (state.playing ? replay.pause() : replay.play())}
+      >
+        {state.playing ? 'Pause' : 'Play'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={state.duration}
+        step={100}
+        value={state.time}
+        onChange={(e) => replay.seek(Number(e.target.value))}
+        style={styles.slider}
+      />
+      <span style={styles.time}>{formatTime(state.time)} / {formatTime(state.duration)}</span>
+      <select
+        value={state.speed}
+        onChange={(e) => replay.setSpeed(Number(e.target.value))}
+        style={styles.select}
+      >
+        {SPEEDS.map(speed => (
+          <option key={speed} value={speed}>{speed}×</option>
+        ))}
+      </select>
+      <button type="button" style={styles.button} onClick={onExit}>
+        Exit replay
+      </button>
+    </div>
+  );
+};
+
+const styles = {
+  bar: {
+    position: 'absolute' as const,
+    bottom: '16px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: 'white',
+    padding: '8px 12px',
+    borderRadius: '8px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    zIndex: 99999,
+  },
+  button: {
+    backgroundColor: '#2f3346',
+    color: 'white',
+    border: '1px solid #4b5563',
+    borderRadius: '4px',
+    padding: '4px 8px',
+    cursor: 'pointer',
+    fontFamily: 'monospace',
+    fontSize: '11px',
+  },
+  slider: {
+    width: '320px',
+  },
+  time: {
+    minWidth: '90px',
+    textAlign: 'center' as const,
+  },
+  select: {
+    backgroundColor: '#2f3346',
+    color: 'white',
+    border: '1px solid #4b5563',
+    borderRadius: '4px',
+    fontFamily: 'monospace',
+    fontSize: '11px',
+  },
+};
+
+export default ReplayControls;
@@ -0,0 +1,294 @@
+// file: src/components/ServerBrowser.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import multiplayerClient, { ServerStatus } from '../services/MultiPlayerClient';
+import serverList, { SavedServer, SERVER_URL_PATTERN } from '../services/ServerList';
+
+interface ServerBrowserProps {
+  selectedUrl: string;
+  onSelect: (url: string) => void;
+  disabled?: boolean;
+}
+
+// Result of the last status query for a server
+interface ServerProbe {
+  status: ServerStatus | null;
+  error: string;
+  isLoading: boolean;
+}
+
+const ServerBrowser: React.FC<ServerBrowserProps> = ({ selectedUrl, onSelect, disabled = false }) => {
+  const [servers, setServers] = useState<SavedServer[]>(() => serverList.getServers());
+  const [probes, setProbes] = useState<Record<string, ServerProbe>>({});
+  const [newServerUrl, setNewServerUrl] = useState<string>('');
+  const [addError, setAddError] = useState<string>('');
+
+  const updateProbe = (url: string, probe: ServerProbe) => {
+    setProbes(prev => ({ ...prev, [url]: probe }));
+  };
+
+  const probeServer = useCallback((url: string) => {
+    updateProbe(url, { status: null, error: '', isLoading: true });
+
+    multiplayerClient.fetchServerStatus(url)
+      .then(status => {
+        updateProbe(url, { status, error: '', isLoading: false });
+        serverList.setServerName(url, status.name);
+        setServers(serverList.getServers());
+      })
+      .catch(error => {
+        updateProbe(url, {
+          status: null,
+          error: error instanceof Error ? error.message : String(error),
+          isLoading: false
+        });
+      });
+  }, []);
+
+  const probeAll = useCallback(() => {
+    serverList.getServers().forEach(server => probeServer(server.url));
+  }, [probeServer]);
+
+  // Query every saved server once when the browser opens
+  useEffect(() => {
+    probeAll();
+  }, [probeAll]);
+
+  const handleAdd = () => {
+    const url = newServerUrl.trim();
+
+    if (!SERVER_URL_PATTERN.test(url)) {
+      setAddError('Please enter a valid server URL (http://, https://, ws:// or wss://)');
+      return;
+    }
+
+    serverList.addServer(url);
+    setServers(serverList.getServers());
+    setNewServerUrl('');
+    setAddError('');
+    onSelect(url);
+    probeServer(url);
+  };
+
+  const handleRemove = (url: string) => {
+    serverList.removeServer(url);
+    setServers(serverList.getServers());
+  };
+
+  const handleToggleFavorite = (url: string) => {
+    serverList.toggleFavorite(url);
+    setServers(serverList.getServers());
+  };
+
+  const renderStatus = (probe: ServerProbe | undefined) => {
+    if (!probe || probe.isLoading) {
+      return <span style={styles.muted}>Checking...</span>;
+    }
+    if (!probe.status) {
+      return <span style={styles.offline} title={probe.error}>Offline</span>;
+    }
+
+    const { playerCount, maxPlayers, version, ping } = probe.status;
+    return (
+      <span style={styles.muted}>
+        {playerCount}/{maxPlayers} players · v{version} · {ping} ms
+      </span>
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>Servers:</span>
+        <button type="button" onClick={probeAll} style={styles.linkButton} disabled={disabled}>
+          Refresh
+        </button>
+      </div>
+
+      <div style={styles.list}>
+        {servers.map(server => {
+          const probe = probes[server.url];
+          const isSelected = server.url === selectedUrl;
+
+          return (
+            <div
+              key={server.url}
+              onClick={() => !disabled && onSelect(server.url)}
+              style={{
+                ...styles.server,
+                ...(isSelected ? styles.serverSelected : {}),
+                cursor: disabled ? 'default' : 'pointer'
+              }}
+            >
+              <div style={styles.serverRow}>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleToggleFavorite(server.url);
+                  }}
+                  style={{ ...styles.iconButton, color: server.favorite ? '#f1c40f' : '#7f8c8d' }}
+                  title={server.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                  disabled={disabled}
+                >
+                  {server.favorite ? '★' : '☆'}
+                </button>
+                <strong style={styles.serverName}>{server.name || server.url}</strong>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRemove(server.url);
+                  }}
+                  style={styles.iconButton}
+                  title="Remove server"
+                  disabled={disabled}
+                >
+                  ✕
+                </button>
+              </div>
+              {server.name && <div style={styles.muted}>{server.url}</div>}
+              {probe?.status?.motd && <div style={styles.motd}>{probe.status.motd}</div>}
+              {renderStatus(probe)}
+            </div>
+          );
+        })}
+
+        {servers.length === 0 && (
+          <div style={styles.muted}>No saved servers, add one below</div>
+        )}
+      </div>
+
+      <div style={styles.addRow}>
+        <input
+          type="text"
+          value={newServerUrl}
+          onChange={(e) => setNewServerUrl(e.target.value)}
+          onKeyDown={(e) => {
+            // Add the server instead of submitting the login form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          style={styles.input}
+          placeholder="http://localhost:3001"
+          disabled={disabled}
+        />
+        <button type="button" onClick={handleAdd} style={styles.addButton} disabled={disabled}>
+          Add
+        </button>
+      </div>
+      {addError && <div style={styles.error}>{addError}</div>}
+    </div>
+  );
+};
+
+const styles = {
+  container: {
+    width: '100%',
+    textAlign: 'left' as const,
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: '8px',
+  },
+  title: {
+    color: '#ecf0f1',
+    fontSize: '14px',
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '6px',
+    maxHeight: '220px',
+    overflowY: 'auto' as const,
+  },
+  server: {
+    padding: '8px 10px',
+    backgroundColor: '#34495e',
+    border: '2px solid #7f8c8d',
+    borderRadius: '6px',
+    color: '#ecf0f1',
+    fontFamily: 'system-ui, sans-serif',
+    fontSize: '12px',
+  },
+  serverSelected: {
+    borderColor: '#3498db',
+    backgroundColor: '#3d5a75',
+  },
+  serverRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  serverName: {
+    flex: 1,
+    fontSize: '14px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  motd: {
+    fontStyle: 'italic',
+    margin: '2px 0',
+  },
+  muted: {
+    color: '#bdc3c7',
+    fontSize: '11px',
+  },
+  offline: {
+    color: '#e74c3c',
+    fontSize: '11px',
+  },
+  iconButton: {
+    backgroundColor: 'transparent',
+    border: 'none',
+    color: '#bdc3c7',
+    cursor: 'pointer',
+    fontSize: '14px',
+    padding: '0 4px',
+  },
+  linkButton: {
+    backgroundColor: 'transparent',
+    color: '#3498db',
+    border: 'none',
+    padding: '4px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    textDecoration: 'underline',
+    fontFamily: "'Press Start 2P', system-ui, sans-serif",
+  },
+  addRow: {
+    display: 'flex',
+    gap: '8px',
+    marginTop: '8px',
+  },
+  input: {
+    flex: 1,
+    padding: '8px',
+    backgroundColor: '#34495e',
+    border: '2px solid #7f8c8d',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '14px',
+    outline: 'none',
+  },
+  addButton: {
+    backgroundColor: '#3498db',
+    color: 'white',
+    border: 'none',
+    padding: '8px 12px',
+    borderRadius: '6px',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: '12px',
+    marginTop: '6px',
+  },
+};
+
+export default ServerBrowser;
@@ -6,26 +6,48 @@ import Character from './Character';
 import World from './World';
 import {MiniMap} from './MiniMap';
 import StatusBar from './StatusBar';
-import { GameConfig, Position, WorldChunk } from '../utils/game';
-import LoginScreen from './LoginScreen';
-import multiplayerClient from '../services/MultiPlayerClient';
+import { GameConfig, Position, WorldChunk, WorldConfig } from '../utils/game';
+import { getTreeHitbox } from '../utils/movement';
+import { PositionSendPolicy } from '../utils/sendPolicy';
+import { ChunkCoordinates, SpawnPoint } from '../utils/protocol';
+import LoginScreen, { LoginDetails } from './LoginScreen';
+import multiplayerClient, { ConnectionState, JoinError } from '../services/MultiPlayerClient';
+import { MOCK_SERVER_URL, startMockServer, stopMockServer } from '../services/mock/MockServer';
+import serverList from '../services/ServerList';
 import ChatSystem from './ChatSystem';
+import NetworkDiagnostics from './NetworkDiagnostics';
 import RemotePlayers from './RemovePlayers';
+import ReplayControls from './ReplayControls';
+import { SessionRecording } from '../services/SessionRecorder';
+import { SessionReplay } from '../services/SessionReplay';
 
 
-// Game configuration - centralized to make it easier to adjust
-const GAME_CONFIG: GameConfig = {
+// Display settings, the only part of the game config the client decides
+const VIEWPORT_CONFIG = {
   viewportWidth: 1024,
-  viewportHeight: 768,
+  viewportHeight: 768
+};
+
+// Placeholder world until the server sends the joined world's config in session:started
+const DEFAULT_WORLD_CONFIG: WorldConfig = {
   characterSize: 64,
-  movementSpeed: 2.5, // Reduced for smoother movement
+  movementSpeed: 2.5,
   worldWidth: 5000,
   worldHeight: 5000,
   chunkSize: 500,
   renderDistance: 2,
-  timeScale: 0.1
+  timeScale: 0.1,
+  seed: 0
 };
 
+const toGameConfig = (world: WorldConfig): GameConfig => ({ ...VIEWPORT_CONFIG, ...world });
+
+// Day/night clock shared by everyone on the server
+const serverNow = () => multiplayerClient.serverNow();
+
+// Once in a world, chunks are requested from the server as the player moves
+const requestChunks = (chunks: ChunkCoordinates[]) => multiplayerClient.requestChunks(chunks);
+
 export const Game: React.FC = () => {
   // Game login state
   const [loggedIn, setLoggedIn] = useState<boolean>(false);
@@ -33,7 +55,14 @@ export const Game: React.FC = () => {
   const [serverStatusMessage, setServerStatusMessage] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [isConnecting, setIsConnecting] = useState<boolean>(false);
-  const [serverUrl, setServerUrl] = useState<string>('http://localhost:3001');
+  const [serverUrl, setServerUrl] = useState<string>(() => serverList.getLastUsedServer());
+  // Set while watching a recorded session instead of playing
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  
+  // World rules (size, seed, speed, time scale) come from the server when we join
+  const [gameConfig, setGameConfig] = useState<GameConfig>(() => toGameConfig(DEFAULT_WORLD_CONFIG));
+  // Where the server placed us: where our account last left the world, or the world's spawn point
+  const [spawn, setSpawn] = useState<SpawnPoint | null>(null);
   
   // State for server-provided chunks
   const [serverChunks, setServerChunks] = useState<WorldChunk[]>([]);
@@ -50,8 +79,12 @@ export const Game: React.FC = () => {
     keysPressed,
     handleKeyDown,
     handleKeyUp,
-    updatePlayerMovement
-  } = useGameEngine(GAME_CONFIG);
+    updatePlayerMovement,
+    updateCollisions,
+    getPredictedPosition,
+    commitMovementInputs,
+    reconcilePosition
+  } = useGameEngine(gameConfig, spawn);
   
   // For client-side world generation
   const {
@@ -59,22 +92,25 @@ export const Game: React.FC = () => {
     gameTime,
     worldElements,
     loadChunks,
+    resendChunkRequests,
     getVisibleElements,
     updateWithServerChunks
-  } = useWorldState(GAME_CONFIG, playerPosition);
+  } = useWorldState(gameConfig, playerPosition, serverNow, loggedIn && !replay ? requestChunks : undefined);
   
   // Camera position (viewport center)
   const [cameraPosition, setCameraPosition] = useState<Position>({
-    x: playerPosition.x - GAME_CONFIG.viewportWidth / 2,
-    y: playerPosition.y - GAME_CONFIG.viewportHeight / 2
+    x: playerPosition.x - gameConfig.viewportWidth / 2,
+    y: playerPosition.y - gameConfig.viewportHeight / 2
   });
   
-  // Position update throttling for network efficiency
-  const lastPositionUpdate = useRef<number>(0);
-  const positionUpdateInterval = 100; // ms
+  // Decides when position updates are worth sending; one that has to wait is sent by a timer
+  const sendPolicy = useRef(new PositionSendPolicy());
+  const deferredSend = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const movementStateRef = useRef({ direction: playerDirection, isMoving });
+  movementStateRef.current = { direction: playerDirection, isMoving };
   
   // Handle user login and connect to multiplayer server
-  const handleLogin = async (username: string, serverAddress: string = serverUrl) => {
+  const handleLogin = async ({ username, serverUrl: serverAddress, world, authToken }: LoginDetails) => {
     try {
       setIsConnecting(true);
       setServerStatusMessage('Connecting to server...');
@@ -83,74 +119,205 @@ export const Game: React.FC = () => {
       setUsername(username);
       setServerUrl(serverAddress);
       
-      // Configure client with game config
-      multiplayerClient.setConfig(GAME_CONFIG);
+      // Offline mode runs a simulated server with bots inside the client
+      if (serverAddress === MOCK_SERVER_URL) {
+        startMockServer();
+      }
       
       // Connect to server
-      const connected = await multiplayerClient.connect(username, 'default', serverAddress);
+      const connected = await multiplayerClient.connect(username, world?.id ?? 'default', serverAddress, authToken);
       
       if (connected) {
+        // Play by the rules the server sent for the world it placed us in
+        const joinedWorld = multiplayerClient.getWorld();
+        if (joinedWorld) {
+          setGameConfig(toGameConfig(joinedWorld.config));
+        }
+        setSpawn(multiplayerClient.getSpawn());
+        
+        if (serverAddress !== MOCK_SERVER_URL) {
+          serverList.markUsed(serverAddress);
+        }
         setLoggedIn(true);
-        setServerStatusMessage('Connected to multiplayer server');
+        setServerStatusMessage(serverAddress === MOCK_SERVER_URL ? 'Playing offline with simulated players' : `Connected to ${joinedWorld?.name ?? 'multiplayer server'}`);
         setErrorMessage('');
-        
-        // Setup chunk update handler
-        multiplayerClient.onChunkUpdate((chunks) => {
-          console.log(`Received ${chunks.length} chunks from server`);
-          setServerChunks(prevChunks => [...prevChunks, ...chunks]);
-          updateWithServerChunks(chunks);
-        });
-        
-        // Setup error handler
-        multiplayerClient.onError((message) => {
-          setErrorMessage(`Server error: ${message}`);
-        });
       }
     } catch (error) {
       console.error('Login failed:', error);
-      setErrorMessage(`Failed to connect to server: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof JoinError) {
+        // The server said why it turned us down, which is more useful than a generic connection failure
+        setErrorMessage(error.reason === 'version-mismatch' ? `${error.message}. Please reload the page to update.` : error.message);
+      } else {
+        setErrorMessage(`Failed to connect to server: ${error instanceof Error ? error.message : String(error)}`);
+      }
     } finally {
       setIsConnecting(false);
     }
   };
   
+  // Watch a recording: the recorded messages drive the world, remote players and chat
+  const handleReplay = (recording: SessionRecording) => {
+    try {
+      const session = multiplayerClient.startReplay(recording);
+      if (recording.world) {
+        setGameConfig(toGameConfig(recording.world.config));
+      }
+      
+      setUsername(recording.username);
+      setReplay(session);
+      setLoggedIn(true);
+      setServerStatusMessage(`Replaying a session recorded ${new Date(recording.startedAt).toLocaleString()}`);
+      setErrorMessage('');
+    } catch (error) {
+      setErrorMessage(`Failed to replay recording: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  const exitReplay = () => {
+    multiplayerClient.stopReplay();
+    setReplay(null);
+    setLoggedIn(false);
+    setServerStatusMessage('');
+  };
+  
+  // Chunks from the server, or from the recording being replayed
+  useEffect(() => {
+    if (!loggedIn) return;
+    
+    const handleChunkUpdate = (chunks: WorldChunk[]) => {
+      console.log(`Received ${chunks.length} chunks from server`);
+      setServerChunks(prevChunks => [...prevChunks, ...chunks]);
+      updateWithServerChunks(chunks);
+    };
+    
+    multiplayerClient.onChunkUpdate(handleChunkUpdate);
+    return () => multiplayerClient.offChunkUpdate(handleChunkUpdate);
+  }, [loggedIn, updateWithServerChunks]);
+  
+  // Start a replay once everything showing it has subscribed, so the first events aren't missed
+  useEffect(() => {
+    replay?.play();
+  }, [replay]);
+  
   // Update camera to follow player
   const updateCamera = useCallback(() => {
     setCameraPosition({
-      x: Math.max(0, Math.min(playerPosition.x - GAME_CONFIG.viewportWidth / 2, 
-         GAME_CONFIG.worldWidth - GAME_CONFIG.viewportWidth)),
-      y: Math.max(0, Math.min(playerPosition.y - GAME_CONFIG.viewportHeight / 2, 
-         GAME_CONFIG.worldHeight - GAME_CONFIG.viewportHeight))
+      x: Math.max(0, Math.min(playerPosition.x - gameConfig.viewportWidth / 2, 
+         gameConfig.worldWidth - gameConfig.viewportWidth)),
+      y: Math.max(0, Math.min(playerPosition.y - gameConfig.viewportHeight / 2, 
+         gameConfig.worldHeight - gameConfig.viewportHeight))
     });
-  }, [playerPosition, GAME_CONFIG.viewportWidth, GAME_CONFIG.viewportHeight, GAME_CONFIG.worldWidth, GAME_CONFIG.worldHeight]);
+  }, [playerPosition, gameConfig.viewportWidth, gameConfig.viewportHeight, gameConfig.worldWidth, gameConfig.worldHeight]);
   
   // Update camera position when player moves
   useEffect(() => {
     updateCamera();
   }, [playerPosition, updateCamera]);
   
+  // Tree trunks block movement (the server checks the same hitboxes)
+  useEffect(() => {
+    updateCollisions(worldElements.trees.map(getTreeHitbox));
+  }, [worldElements.trees, updateCollisions]);
+  
   // Load chunks around player - separate effect to avoid circular dependencies
   useEffect(() => {
     loadChunks(playerPosition);
   }, [playerPosition, loadChunks]);
   
-  // Send position updates to server (throttled)
+  // Send the current movement state if the send policy says it's time, or schedule it for when it will be.
+  // Whatever changed in between goes out together in that one update.
+  const sendPosition = useCallback(function trySend() {
+    const { direction, isMoving: moving } = movementStateRef.current;
+    const now = Date.now();
+    const delay = sendPolicy.current.getDelay(
+      { position: getPredictedPosition(), direction, isMoving: moving },
+      now,
+      multiplayerClient.getRoundTripTime()
+    );
+    
+    if (delay === null) return;
+    if (delay > 0) {
+      deferredSend.current ??= setTimeout(() => {
+        deferredSend.current = null;
+        trySend();
+      }, delay);
+      return;
+    }
+    
+    if (deferredSend.current) {
+      clearTimeout(deferredSend.current);
+      deferredSend.current = null;
+    }
+    
+    // Send the predicted position, not the smoothed one on screen, tagged with the inputs it includes.
+    // Called even while reconnecting: the client keeps the latest position and re-sends it on resume
+    const { sequence, position } = commitMovementInputs();
+    multiplayerClient.updatePosition(position, direction, moving, sequence);
+    sendPolicy.current.markSent({ position, direction, isMoving: moving }, now);
+  }, [getPredictedPosition, commitMovementInputs]);
+  
+  // A new session starts from scratch, and nothing is sent after logging out
   useEffect(() => {
     if (!loggedIn) return;
     
-    const now = Date.now();
-    if (now - lastPositionUpdate.current > positionUpdateInterval) {
-      if (multiplayerClient.isConnectedToServer()) {
-        multiplayerClient.updatePosition(playerPosition, playerDirection, isMoving);
+    sendPolicy.current.reset();
+    return () => {
+      if (deferredSend.current) {
+        clearTimeout(deferredSend.current);
+        deferredSend.current = null;
       }
-      lastPositionUpdate.current = now;
-    }
-  }, [playerPosition, playerDirection, isMoving, loggedIn]);
+    };
+  }, [loggedIn]);
+  
+  // Check whenever our movement changes
+  useEffect(() => {
+    if (!loggedIn) return;
+    sendPosition();
+  }, [playerPosition, playerDirection, isMoving, loggedIn, sendPosition]);
   
-  // Key event listeners (only active when logged in)
+  // Reconcile the predicted position with the server's acknowledged one
   useEffect(() => {
     if (!loggedIn) return;
     
+    multiplayerClient.onMoveAck(reconcilePosition);
+    return () => multiplayerClient.offMoveAck(reconcilePosition);
+  }, [loggedIn, reconcilePosition]);
+  
+  // Reflect connection drops and resumes in the status bar
+  useEffect(() => {
+    if (!loggedIn) return;
+    
+    const handleConnectionStateChange = (state: ConnectionState) => {
+      if (state === 'reconnecting') {
+        setServerStatusMessage('Connection lost, reconnecting...');
+      } else if (state === 'connected') {
+        setServerStatusMessage(serverUrl === MOCK_SERVER_URL ? 'Playing offline with simulated players' : 'Connected to multiplayer server');
+        setErrorMessage('');
+        // Chunks requested before the connection dropped won't be answered on the new one
+        resendChunkRequests();
+      } else if (state === 'disconnected') {
+        setServerStatusMessage('Disconnected from server');
+      }
+    };
+    
+    multiplayerClient.onConnectionStateChange(handleConnectionStateChange);
+    return () => multiplayerClient.offConnectionStateChange(handleConnectionStateChange);
+  }, [loggedIn, serverUrl, resendChunkRequests]);
+  
+  // Errors reported by the server or the connection while in game
+  useEffect(() => {
+    if (!loggedIn) return;
+    
+    const handleError = (message: string) => setErrorMessage(`Server error: ${message}`);
+    
+    multiplayerClient.onError(handleError);
+    return () => multiplayerClient.offError(handleError);
+  }, [loggedIn]);
+  
+  // Key event listeners (only active when logged in, and not while watching a replay)
+  useEffect(() => {
+    if (!loggedIn || replay) return;
+    
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     
@@ -158,7 +325,7 @@ export const Game: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [loggedIn, handleKeyDown, handleKeyUp]);
+  }, [loggedIn, replay, handleKeyDown, handleKeyUp]);
   
   // Game animation loop
   useEffect(() => {
@@ -189,11 +356,12 @@ export const Game: React.FC = () => {
   useEffect(() => {
     return () => {
       multiplayerClient.disconnect();
+      stopMockServer();
     };
   }, []);
   
   // Get elements visible in the current viewport
-  const visibleElements = getVisibleElements(cameraPosition, GAME_CONFIG.viewportWidth, GAME_CONFIG.viewportHeight);
+  const visibleElements = getVisibleElements(cameraPosition, gameConfig.viewportWidth, gameConfig.viewportHeight);
   
   // Format game time as a 12-hour clock
   const formatGameTime = () => {
@@ -209,6 +377,7 @@ export const Game: React.FC = () => {
     return (
       <LoginScreen 
         onLogin={handleLogin} 
+        onReplay={handleReplay}
         isConnecting={isConnecting}
         serverUrl={serverUrl}
         errorMessage={errorMessage}
@@ -231,8 +400,8 @@ export const Game: React.FC = () => {
         ref={viewportRef}
         style={{
           ...gameStyles.gameArea,
-          width: `${GAME_CONFIG.viewportWidth}px`, 
-          height: `${GAME_CONFIG.viewportHeight}px`,
+          width: `${gameConfig.viewportWidth}px`, 
+          height: `${gameConfig.viewportHeight}px`,
           position: 'relative',
           overflow: 'hidden'
         }}
@@ -254,12 +423,15 @@ export const Game: React.FC = () => {
           direction={playerDirection}
           isMoving={isMoving}
           animationFrame={animationFrame}
-          size={GAME_CONFIG.characterSize}
+          size={gameConfig.characterSize}
         />
         
         {/* Chat system */}
         <ChatSystem />
         
+        {/* Network diagnostics overlay (F3) */}
+        <NetworkDiagnostics />
+        
         {/* Time of day display */}
         <div style={gameStyles.timeDisplay}>
           {formatGameTime()} ({timeOfDay})
@@ -268,14 +440,17 @@ export const Game: React.FC = () => {
         {/* Mini map overlay */}
         <MiniMap 
           playerPosition={playerPosition} 
-          worldSize={{ width: GAME_CONFIG.worldWidth, height: GAME_CONFIG.worldHeight }}
+          worldSize={{ width: gameConfig.worldWidth, height: gameConfig.worldHeight }}
           worldElements={worldElements}
         />
         
         {/* Player connection info */}
         <div style={gameStyles.playerInfo}>
-          Playing as: <strong>{username}</strong> (ID: {multiplayerClient.getPlayerId().substring(0, 8)})
+          {replay ? 'Replaying' : 'Playing'} as: <strong>{username}</strong> (ID: {multiplayerClient.getPlayerId().substring(0, 8)})
         </div>
+        
+        {/* Play/pause/seek while watching a recording */}
+        {replay && <ReplayControls replay={replay} onExit={exitReplay} />}
       </div>
       
       <StatusBar 
@@ -1,8 +1,14 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Position, Direction, GameConfig, KeysPressed, Hitbox } from '../utils/game';
+import { MovementInput, applyMovementInput, collidesAt } from '../utils/movement';
+import { SpawnPoint } from '../utils/protocol';
 
+// Unacknowledged inputs kept for replay; older ones are dropped if the server stops acking
+const MAX_PENDING_INPUTS = 600;
 
-export const useGameEngine = (config: GameConfig) => {
+
+// spawn is where the server placed the player when joining; the world's centre until then
+export const useGameEngine = (config: GameConfig, spawn: SpawnPoint | null = null) => {
   // Player state
   const [playerPosition, setPlayerPosition] = useState<Position>({ 
     x: config.worldWidth / 2, 
@@ -21,6 +27,12 @@ export const useGameEngine = (config: GameConfig) => {
   const targetPosition = useRef<Position>(playerPosition);
   const movementSmoothing = 0.15; // Lower value for smoother movement
   
+  // Client-side prediction: targetPosition is the predicted position, inputs not yet
+  // acknowledged by the server are kept so they can be replayed on top of a correction
+  const inputSequence = useRef<number>(1);
+  const lastAckedSequence = useRef<number>(0);
+  const pendingInputs = useRef<MovementInput[]>([]);
+  
   // Current state refs to avoid dependency cycles
   const playerPositionRef = useRef<Position>(playerPosition);
   playerPositionRef.current = playerPosition;
@@ -34,41 +46,34 @@ export const useGameEngine = (config: GameConfig) => {
   const keysPressedRef = useRef<KeysPressed>(keysPressed);
   keysPressedRef.current = keysPressed;
   
+  // Joining starts over where the server placed the player, or at the centre of a world without a spawn
+  const worldKey = `${config.seed}:${config.worldWidth}x${config.worldHeight}`;
+  const worldKeyRef = useRef(worldKey);
+  const spawnRef = useRef(spawn);
+  useEffect(() => {
+    if (worldKeyRef.current === worldKey && spawnRef.current === spawn) return;
+    worldKeyRef.current = worldKey;
+    spawnRef.current = spawn;
+    
+    const position = spawn?.position ?? { x: config.worldWidth / 2, y: config.worldHeight / 2 };
+    targetPosition.current = position;
+    playerPositionRef.current = position;
+    pendingInputs.current = [];
+    setPlayerPosition(position);
+    setDirection(spawn?.direction ?? 'down');
+    setIsMoving(false);
+  }, [worldKey, spawn, config.worldWidth, config.worldHeight]);
+  
   // For collision detection with world elements
   const [collisionObjects, setCollisionObjects] = useState<Hitbox[]>([]);
   const collisionObjectsRef = useRef<Hitbox[]>(collisionObjects);
   collisionObjectsRef.current = collisionObjects;
   
   // Check if a position would collide with any objects
-  const checkCollision = useCallback((x: number, y: number): boolean => {
-    // Create player hitbox (smaller than visible character for better gameplay)
-    const playerHitbox: Hitbox = {
-      left: x + 16,
-      right: x + config.characterSize - 16,
-      top: y + config.characterSize / 2,
-      bottom: y + config.characterSize - 8
-    };
-    
-    // Check collisions with stored objects
-    for (const obj of collisionObjectsRef.current) {
-      if (playerHitbox.right > obj.left && 
-          playerHitbox.left < obj.right && 
-          playerHitbox.bottom > obj.top && 
-          playerHitbox.top < obj.bottom) {
-        return true;
-      }
-    }
-    
-    // Check world boundaries
-    if (playerHitbox.left < 0 || 
-        playerHitbox.right > config.worldWidth || 
-        playerHitbox.top < 0 || 
-        playerHitbox.bottom > config.worldHeight) {
-      return true;
-    }
-    
-    return false;
-  }, [config.characterSize, config.worldWidth, config.worldHeight]);
+  // Same rules the server validates moves with, so predictions rarely need correcting
+  const checkCollision = useCallback((x: number, y: number): boolean =>
+    collidesAt({ x, y }, config, collisionObjectsRef.current)
+  , [config]);
   
   // Handle key events
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -113,43 +118,31 @@ export const useGameEngine = (config: GameConfig) => {
     // Get the current values from refs
     const keys = keysPressedRef.current;
     const currentDirection = directionRef.current;
-    const targetPos = targetPosition.current;
-    let newX = targetPos.x;
-    let newY = targetPos.y;
-    let newDirection = currentDirection;
-    let moving = false;
     
-    // Calculate movement speed based on deltaTime for frame-independent movement
-    const frameSpeed = (config.movementSpeed * clampedDeltaTime) / 16.67; // Normalize to 60fps
+    const input: MovementInput = {
+      sequence: inputSequence.current,
+      up: !!(keys['ArrowUp'] || keys['w']),
+      down: !!(keys['ArrowDown'] || keys['s']),
+      left: !!(keys['ArrowLeft'] || keys['a']),
+      right: !!(keys['ArrowRight'] || keys['d']),
+      deltaTime: clampedDeltaTime
+    };
     
-    // Handle movement input
-    if (keys['ArrowUp'] || keys['w']) {
-      const testY = Math.max(0, newY - frameSpeed);
-      if (!checkCollision(newX, testY)) newY = testY;
-      newDirection = 'up';
-      moving = true;
-    }
-    if (keys['ArrowDown'] || keys['s']) {
-      const testY = Math.min(config.worldHeight - config.characterSize, newY + frameSpeed);
-      if (!checkCollision(newX, testY)) newY = testY;
-      newDirection = 'down';
-      moving = true;
-    }
-    if (keys['ArrowLeft'] || keys['a']) {
-      const testX = Math.max(0, newX - frameSpeed);
-      if (!checkCollision(testX, newY)) newX = testX;
-      newDirection = 'left';
-      moving = true;
-    }
-    if (keys['ArrowRight'] || keys['d']) {
-      const testX = Math.min(config.worldWidth - config.characterSize, newX + frameSpeed);
-      if (!checkCollision(testX, newY)) newX = testX;
-      newDirection = 'right';
-      moving = true;
+    const result = applyMovementInput(targetPosition.current, input, config, checkCollision);
+    const newDirection = result.direction ?? currentDirection;
+    const moving = result.isMoving;
+    
+    // Idle frames don't change the position, so there is nothing to replay for them
+    if (moving) {
+      pendingInputs.current.push(input);
+      if (pendingInputs.current.length > MAX_PENDING_INPUTS) {
+        pendingInputs.current.shift();
+      }
     }
     
-    // Update target position
-    targetPosition.current = { x: newX, y: newY };
+    // Update the predicted position
+    targetPosition.current = result.position;
+    const targetPos = targetPosition.current;
     
     // Update direction if it changed
     if (newDirection !== currentDirection) {
@@ -196,14 +189,36 @@ export const useGameEngine = (config: GameConfig) => {
       setAnimationFrame(0);
     }
   }, [
-    config.movementSpeed, 
-    config.worldHeight, 
-    config.worldWidth, 
-    config.characterSize, 
+    config,
     checkCollision,
     animationFrame
   ]);
   
+  // Predicted position, ahead of the smoothed one on screen
+  const getPredictedPosition = useCallback((): Position => targetPosition.current, []);
+  
+  // Close the current input sequence and get the predicted position to send to the server with it
+  const commitMovementInputs = useCallback((): { sequence: number; position: Position } => {
+    const sequence = inputSequence.current;
+    inputSequence.current++;
+    return { sequence, position: targetPosition.current };
+  }, []);
+  
+  // Server reconciliation: restart from the acknowledged position and replay newer inputs.
+  // Only the predicted position jumps; the rendered position eases towards it, so the camera doesn't snap.
+  const reconcilePosition = useCallback((sequence: number, serverPosition: Position) => {
+    if (sequence <= lastAckedSequence.current) return;
+    lastAckedSequence.current = sequence;
+    
+    pendingInputs.current = pendingInputs.current.filter(input => input.sequence > sequence);
+    
+    let position = serverPosition;
+    for (const input of pendingInputs.current) {
+      position = applyMovementInput(position, input, config, checkCollision).position;
+    }
+    targetPosition.current = position;
+  }, [config, checkCollision]);
+  
   return {
     playerPosition,
     playerDirection: direction,
@@ -213,6 +228,9 @@ export const useGameEngine = (config: GameConfig) => {
     handleKeyDown,
     handleKeyUp,
     updatePlayerMovement,
-    updateCollisions
+    updateCollisions,
+    getPredictedPosition,
+    commitMovementInputs,
+    reconcilePosition
   };
 };
\ No newline at end of file
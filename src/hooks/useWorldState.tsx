@@ -1,12 +1,38 @@
 // file: src/hooks/useWorldState.ts
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Position, Tree, Bush, Flower, GameConfig, WorldChunk, WorldElement } from '../utils/game';
-import { generateTrees, generateBushes, generateFlowers } from '../utils/worldGenerator';
+import { generateChunk as generateWorldChunk } from '../utils/worldGenerator';
+import { getChunkChecksum } from '../utils/chunkSync';
+import { ChunkCoordinates } from '../utils/protocol';
 
-export const useWorldState = (config: GameConfig, playerPosition: Position) => {
-  // Time of day simulation
-  const [timeOfDay, setTimeOfDay] = useState<string>('day');
-  const [gameTime, setGameTime] = useState<number>(8); // Start at 8 AM
+// Hour of day derived from a clock, so every client using the same (server) clock sees the same time
+const getGameHour = (now: number, timeScale: number): number =>
+  ((now / 1000) * timeScale) % 24;
+
+const getTimeOfDay = (hour: number): string => {
+  if (hour >= 6 && hour < 8) return 'dawn';
+  if (hour >= 8 && hour < 18) return 'day';
+  if (hour >= 18 && hour < 20) return 'dusk';
+  return 'night';
+};
+
+// Requests not answered within this time (ms) are sent again: the answer may have been lost to a
+// reconnect, or the server ignored a chunk it considered out of range
+const CHUNK_REQUEST_TIMEOUT = 5000;
+
+// Asks the server for chunks; returns false if the request couldn't be sent
+export type ChunkRequester = (chunks: ChunkCoordinates[]) => boolean;
+
+// Without a requestChunks the world is generated locally; with one, chunks are requested from the server as the player moves
+export const useWorldState = (
+  config: GameConfig,
+  playerPosition: Position,
+  now: () => number = Date.now,
+  requestChunks?: ChunkRequester
+) => {
+  // Time of day simulation, advancing timeScale game hours per real second
+  const [gameTime, setGameTime] = useState<number>(() => getGameHour(now(), config.timeScale));
+  const [timeOfDay, setTimeOfDay] = useState<string>(() => getTimeOfDay(gameTime));
   
   // World is divided into chunks for efficient loading/rendering
   const [loadedChunks, setLoadedChunks] = useState<Map<string, WorldChunk>>(new Map());
@@ -35,6 +61,18 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
     loadedChunksRef.current = loadedChunks;
   }, [loadedChunks]);
   
+  // Chunks requested from the current chunk source and not received yet, with when they were requested,
+  // and chunks received from it, which are kept up to date by the server and never requested again
+  const requestedChunksRef = useRef<Map<string, number>>(new Map());
+  const receivedChunksRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    requestedChunksRef.current = new Map();
+    receivedChunksRef.current = new Set();
+  }, [requestChunks]);
+  
+  const playerPositionRef = useRef(playerPosition);
+  playerPositionRef.current = playerPosition;
+  
   // Generate a key for a chunk based on its coordinates
   const getChunkKey = useCallback((chunkX: number, chunkY: number) => `${chunkX},${chunkY}`, []);
   
@@ -45,50 +83,25 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
   }), [config.chunkSize]);
   
   // Generate content for a new chunk
-  const generateChunk = useCallback((chunkX: number, chunkY: number): WorldChunk => {
-    const chunkOriginX = chunkX * config.chunkSize;
-    const chunkOriginY = chunkY * config.chunkSize;
-    
-    // Use seeded random based on chunk coordinates for consistent generation
-    const chunkSeed = chunkX * 10000 + chunkY;
-    
-    // Generate environment elements for this chunk
-    const trees = generateTrees(
-      chunkOriginX, 
-      chunkOriginY,
-      config.chunkSize,
-      5 + Math.floor((Math.sin(chunkSeed) + 1) * 5), // 5-15 trees per chunk
-      chunkSeed
-    );
-    
-    const bushes = generateBushes(
-      chunkOriginX,
-      chunkOriginY,
-      config.chunkSize,
-      8 + Math.floor((Math.cos(chunkSeed) + 1) * 7), // 8-22 bushes per chunk
-      chunkSeed + 1,
-      trees // Avoid placing bushes on trees
-    );
-    
-    const flowers = generateFlowers(
-      chunkOriginX,
-      chunkOriginY,
-      config.chunkSize,
-      15 + Math.floor((Math.sin(chunkSeed * 0.1) + 1) * 10), // 15-35 flowers per chunk
-      chunkSeed + 2,
-      [...trees, ...bushes] // Avoid placing flowers on trees or bushes
-    );
+  const generateChunk = useCallback((chunkX: number, chunkY: number): WorldChunk => 
+    generateWorldChunk(chunkX, chunkY, config.chunkSize, config.seed)
+  , [config.chunkSize, config.seed]);
+  
+  // Switching to another world (different seed or layout) discards everything generated for the old one
+  const worldKey = `${config.seed}:${config.chunkSize}:${config.worldWidth}x${config.worldHeight}`;
+  const worldKeyRef = useRef(worldKey);
+  useEffect(() => {
+    if (worldKeyRef.current === worldKey) return;
+    worldKeyRef.current = worldKey;
     
-    // Return the chunk without updating state here
-    return {
-      x: chunkX,
-      y: chunkY,
-      trees,
-      bushes,
-      flowers,
-      isLoaded: true
-    };
-  }, [config.chunkSize]);
+    const emptyElements = { trees: [], bushes: [], flowers: [] };
+    requestedChunksRef.current = new Map();
+    receivedChunksRef.current = new Set();
+    loadedChunksRef.current = new Map();
+    worldElementsRef.current = emptyElements;
+    setLoadedChunks(new Map());
+    setWorldElements(emptyElements);
+  }, [worldKey]);
   
   // Separate function to handle state updates after chunk generation
   const addElementsToWorldState = useCallback((newElements: {
@@ -103,8 +116,9 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
     }));
   }, []);
   
-  // Load chunks around the player
+  // Load chunks around the player: request the ones not received or asked for recently, or generate missing ones when offline
   const loadChunks = useCallback((position: Position) => {
+    const requestedAt = Date.now();
     const currentChunk = getChunkCoordinates(position);
     const newChunks = new Map(loadedChunksRef.current);
     const renderDistance = config.renderDistance;
@@ -114,6 +128,7 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
       flowers: [] as Flower[]
     };
     let chunksChanged = false;
+    const chunksToRequest: ChunkCoordinates[] = [];
     
     // Load chunks in render distance
     for (let x = currentChunk.x - renderDistance; x <= currentChunk.x + renderDistance; x++) {
@@ -127,6 +142,15 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
         
         const chunkKey = getChunkKey(x, y);
         
+        if (requestChunks) {
+          const pendingSince = requestedChunksRef.current.get(chunkKey);
+          const isPending = pendingSince !== undefined && requestedAt - pendingSince < CHUNK_REQUEST_TIMEOUT;
+          if (!receivedChunksRef.current.has(chunkKey) && !isPending) {
+            chunksToRequest.push({ x, y });
+          }
+          continue;
+        }
+        
         // If chunk not loaded, generate it
         if (!newChunks.has(chunkKey)) {
           const chunk = generateChunk(x, y);
@@ -139,6 +163,11 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
       }
     }
     
+    // Unsent requests are retried the next time chunks are loaded
+    if (chunksToRequest.length > 0 && requestChunks?.(chunksToRequest)) {
+      chunksToRequest.forEach(({ x, y }) => requestedChunksRef.current.set(getChunkKey(x, y), requestedAt));
+    }
+    
     // Update state only if changes were made
     if (chunksChanged) {
       setLoadedChunks(newChunks);
@@ -152,7 +181,8 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
     config.worldHeight, 
     getChunkKey,
     generateChunk,
-    addElementsToWorldState
+    addElementsToWorldState,
+    requestChunks
   ]);
   
   // Get elements visible in the current viewport
@@ -196,28 +226,17 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
   
   // Set up game time tracking
   useEffect(() => {
-    const gameTimeInterval = setInterval(() => {
-      setGameTime(prevTime => {
-        let newTime = prevTime + config.timeScale;
-        if (newTime >= 24) newTime = 0;
-        
-        // Update time of day
-        if (newTime >= 6 && newTime < 8) {
-          setTimeOfDay('dawn');
-        } else if (newTime >= 8 && newTime < 18) {
-          setTimeOfDay('day');
-        } else if (newTime >= 18 && newTime < 20) {
-          setTimeOfDay('dusk');
-        } else {
-          setTimeOfDay('night');
-        }
-        
-        return newTime;
-      });
-    }, 1000);
+    const updateGameTime = () => {
+      const hour = getGameHour(now(), config.timeScale);
+      setGameTime(hour);
+      setTimeOfDay(getTimeOfDay(hour));
+    };
+    
+    updateGameTime();
+    const gameTimeInterval = setInterval(updateGameTime, 1000);
     
     return () => clearInterval(gameTimeInterval);
-  }, [config.timeScale]);
+  }, [config.timeScale, now]);
   
   // Initial world generation - only run once on mount
   useEffect(() => {
@@ -225,6 +244,24 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
     loadChunks(playerPosition);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
+  
+  // Retry unanswered requests even while the player stands still
+  useEffect(() => {
+    if (!requestChunks) return;
+    
+    const interval = setInterval(() => {
+      if (requestedChunksRef.current.size > 0) {
+        loadChunks(playerPositionRef.current);
+      }
+    }, CHUNK_REQUEST_TIMEOUT);
+    return () => clearInterval(interval);
+  }, [requestChunks, loadChunks]);
+  
+  // Send every pending request again right away, e.g. after a reconnect, whose new connection won't answer the old ones
+  const resendChunkRequests = useCallback(() => {
+    requestedChunksRef.current = new Map();
+    loadChunks(playerPositionRef.current);
+  }, [loadChunks]);
 
   const updateWithServerChunks = useCallback((serverChunks: WorldChunk[]) => {
     if (!serverChunks || serverChunks.length === 0) return;
@@ -236,13 +273,26 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
       bushes: [] as Bush[],
       flowers: [] as Flower[]
     };
+    // Elements of replaced chunks, dropped from the global lists
+    const replacedIds = new Set<number>();
     
     // Process each chunk from server
     for (const chunk of serverChunks) {
       const chunkKey = getChunkKey(chunk.x, chunk.y);
+      const existing = newChunks.get(chunkKey);
+      requestedChunksRef.current.delete(chunkKey);
+      receivedChunksRef.current.add(chunkKey);
+      
+      // Keep what we have unless the server's is a newer version, or the same version with different contents
+      if (existing && (chunk.version < existing.version ||
+          (chunk.version === existing.version && getChunkChecksum(existing) === getChunkChecksum(chunk)))) {
+        continue;
+      }
       
-      // If we already have this chunk, skip it
-      if (newChunks.has(chunkKey)) continue;
+      // Otherwise the server's chunk replaces the one we generated or received earlier
+      if (existing) {
+        [...existing.trees, ...existing.bushes, ...existing.flowers].forEach(element => replacedIds.add(element.id));
+      }
       
       // Store the new chunk
       newChunks.set(chunkKey, chunk);
@@ -253,27 +303,28 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
       newElements.flowers.push(...chunk.flowers);
     }
     
-    // Update state if we have new chunks
+    // Update state if we have new or replaced chunks
     if (newElements.trees.length > 0 || 
         newElements.bushes.length > 0 || 
-        newElements.flowers.length > 0) {
+        newElements.flowers.length > 0 ||
+        replacedIds.size > 0) {
+      
+      const keep = <T extends WorldElement>(elements: T[]) => elements.filter(element => !replacedIds.has(element.id));
+      const withNewElements = (prev: typeof newElements) => ({
+        trees: [...keep(prev.trees), ...newElements.trees],
+        bushes: [...keep(prev.bushes), ...newElements.bushes],
+        flowers: [...keep(prev.flowers), ...newElements.flowers]
+      });
       
       // Update chunks
+      loadedChunksRef.current = newChunks;
       setLoadedChunks(newChunks);
       
       // Update global elements list
-      setWorldElements(prev => ({
-        trees: [...prev.trees, ...newElements.trees],
-        bushes: [...prev.bushes, ...newElements.bushes],
-        flowers: [...prev.flowers, ...newElements.flowers]
-      }));
+      setWorldElements(withNewElements);
       
       // Also update the ref for internal usage
-      worldElementsRef.current = {
-        trees: [...worldElementsRef.current.trees, ...newElements.trees],
-        bushes: [...worldElementsRef.current.bushes, ...newElements.bushes],
-        flowers: [...worldElementsRef.current.flowers, ...newElements.flowers]
-      };
+      worldElementsRef.current = withNewElements(worldElementsRef.current);
       
       console.log(`Added ${newElements.trees.length} trees, ${newElements.bushes.length} bushes, ${newElements.flowers.length} flowers from server chunks`);
     }
@@ -284,6 +335,7 @@ export const useWorldState = (config: GameConfig, playerPosition: Position) => {
     gameTime,
     worldElements,
     loadChunks,
+    resendChunkRequests,
     getVisibleElements,
     updateWithServerChunks
   };
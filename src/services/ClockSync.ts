@@ -0,0 +1,74 @@
+// src/services/ClockSync.ts
+
+interface ClockSample {
+  // Estimated server time minus local time (ms)
+  offset: number;
+  roundTripTime: number;
+}
+
+/**
+ * Estimates the server clock from ping/pong exchanges, NTP style.
+ * Each exchange gives an offset assuming the pong took half the round trip; the sample with the
+ * lowest round trip has the least room for asymmetric delay, so its offset is the one used.
+ */
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private maxSamples: number;
+  private offset: number = 0;
+  private roundTripTime: number = 0;
+
+  constructor(maxSamples: number = 8) {
+    this.maxSamples = maxSamples;
+  }
+
+  /**
+   * Record a completed exchange: when the ping left, the server time in the pong, and when the pong arrived
+   */
+  public addSample(clientSendTime: number, serverTime: number, clientReceiveTime: number): void {
+    const roundTripTime = clientReceiveTime - clientSendTime;
+    if (roundTripTime < 0) return;
+
+    this.samples.push({
+      offset: serverTime + roundTripTime / 2 - clientReceiveTime,
+      roundTripTime
+    });
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+
+    const best = this.samples.reduce((a, b) => (b.roundTripTime < a.roundTripTime ? b : a));
+    this.offset = best.offset;
+    this.roundTripTime = this.samples.reduce((sum, sample) => sum + sample.roundTripTime, 0) / this.samples.length;
+  }
+
+  /**
+   * Forget all samples (e.g. when connecting to a different server)
+   */
+  public reset(): void {
+    this.samples = [];
+    this.offset = 0;
+    this.roundTripTime = 0;
+  }
+
+  /**
+   * Current time on the server clock; the local clock until the first sample arrives
+   */
+  public serverNow(): number {
+    return Date.now() + this.offset;
+  }
+
+  public getOffset(): number {
+    return this.offset;
+  }
+
+  /**
+   * Average round trip time over the kept samples (ms)
+   */
+  public getRoundTripTime(): number {
+    return this.roundTripTime;
+  }
+
+  public getSampleCount(): number {
+    return this.samples.length;
+  }
+}
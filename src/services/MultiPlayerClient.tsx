@@ -1,69 +1,375 @@
 // src/services/MultiplayerClient.ts
-import { io, Socket } from 'socket.io-client';
 import { 
   Position, 
   Direction, 
-  Tree, 
-  Bush, 
-  Flower,
-  WorldChunk,
-  GameConfig 
+  WorldChunk
 } from '../utils/game';
+import {
+  CAPABILITIES,
+  Capability,
+  ChunkCoordinates,
+  ChunkSync,
+  JoinRejectReason,
+  PROTOCOL_VERSION,
+  PlayerState,
+  MoveRequest,
+  SpawnPoint,
+  ClientEventName,
+  ClientPayload,
+  ServerEventName,
+  ServerPayload,
+  WorldInfo,
+  isServerEventName,
+  validateServerMessage
+} from '../utils/protocol';
+import { ClientCodec, CodecError, isBinaryPayload, toBytes } from '../utils/binaryCodec';
+import { applyChunkDiff, getChunkChecksum } from '../utils/chunkSync';
+import { generateChunk } from '../utils/worldGenerator';
+import { createTransport, Transport } from './transports';
+import { ClockSync } from './ClockSync';
+import { NetworkStats, NetworkStatsSnapshot } from './NetworkStats';
+import { SessionRecorder, SessionRecording } from './SessionRecorder';
+import { SessionReplay } from './SessionReplay';
 
-// Event types for multiplayer communication
-export enum GameEventType {
-  PLAYER_JOIN = 'player_join',
-  PLAYER_LEAVE = 'player_leave',
-  PLAYER_MOVE = 'player_move',
-  WORLD_SYNC = 'world_sync',
-  CHAT_MESSAGE = 'chat_message'
-}
+// Pings sent quickly after joining to get a first clock estimate, then one every CLOCK_SYNC_INTERVAL
+const CLOCK_SYNC_BURST = 5;
+const CLOCK_SYNC_BURST_INTERVAL = 250;
+const CLOCK_SYNC_INTERVAL = 10000;
+
+// How long one-shot queries (world list, server status) wait for the server's answer
+const QUERY_TIMEOUT = 5000;
+
+// Heartbeats keep the server from timing out an idle player. The server sends its own every few seconds,
+// so a connection that stays silent for SERVER_TIMEOUT is treated as dead even if it never reported closing.
+const HEARTBEAT_INTERVAL = 5000;
+const SERVER_TIMEOUT = 20000;
+
+// Setting this local storage key to '1' keeps every message JSON, which is easier to read in the browser's dev tools
+const JSON_ONLY_STORAGE_KEY = 'forest-explorer:json-only';
+
+// Rejections a reconnect can get from our own old session while the server still holds its half-open
+// connection; retried with backoff, as the server drops that connection sooner or later
+const RETRIED_REJECTIONS: readonly JoinRejectReason[] = ['already-playing', 'username-taken'];
+
+// Connection setup and clock sync answers from a recording mean nothing without the connection they were for
+const NOT_REPLAYED_EVENTS: readonly string[] = ['session:started', 'join:rejected', 'time:pong'];
 
 // Player data received from server
-export interface RemotePlayer {
-  id: string;
-  username: string;
-  position: Position;
-  direction: Direction;
-  isMoving: boolean;
-  lastUpdate: number;
-  animationFrame?: number;
-}
+export type RemotePlayer = PlayerState;
 
 // Event handler types
-export type PlayerJoinHandler = (player: RemotePlayer) => void;
-export type PlayerLeaveHandler = (playerId: string) => void;
-export type PlayerMoveHandler = (playerId: string, position: Position, direction: Direction, isMoving: boolean) => void;
+// Why a remote player appeared or disappeared: a real join/leave, moving in or out of range
+// (the server only sends players near us), or a resync of the player list after a reconnect
+export type PlayerJoinReason = 'joined' | 'entered-range' | 'sync';
+// 'timed-out': dropped on our side after hearing nothing of the player for too long (see dropStalePlayer)
+export type PlayerLeaveReason = 'left' | 'exited-range' | 'sync' | 'timed-out';
+
+export type PlayerJoinHandler = (player: RemotePlayer, reason: PlayerJoinReason) => void;
+export type PlayerLeaveHandler = (playerId: string, reason: PlayerLeaveReason) => void;
+// timestamp is the server time of the update, not the time it was received
+export type PlayerMoveHandler = (playerId: string, position: Position, direction: Direction, isMoving: boolean, timestamp: number) => void;
+// playerIds are the visible players the server still has a live connection for, at server time timestamp
+export type PlayerHeartbeatHandler = (playerIds: string[], timestamp: number) => void;
+export type MoveAckHandler = (sequence: number, position: Position, corrected: boolean) => void;
 export type ChatMessageHandler = (playerId: string, username: string, message: string) => void;
 export type ChunkUpdateHandler = (chunks: WorldChunk[]) => void;
 export type ErrorHandler = (message: string) => void;
+export type ConnectionStateHandler = (state: ConnectionState) => void;
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// A logged-in account, as returned by register, login and resumeAccount
+export type AccountSession = ServerPayload<'account:authenticated'>;
+
+// Server status as shown in the server browser
+export interface ServerStatus extends ServerPayload<'server:status'> {
+  // Round trip of the status query (ms)
+  ping: number;
+}
 
 /**
- * Handles multiplayer connectivity and event dispatching for the Forest Explorer game
+ * The server turned a join request down. reason tells why, message is meant for the player.
  */
-class MultiplayerClient {
-  private socket: Socket | null = null;
+export class JoinError extends Error {
+  public readonly reason: JoinRejectReason;
+  
+  constructor(reason: JoinRejectReason, message: string) {
+    super(message);
+    this.name = 'JoinError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Handles multiplayer connectivity and event dispatching for the Forest Explorer game.
+ * The wire technology is provided by a Transport chosen from the server URL.
+ */
+export class MultiplayerClient {
+  private transport: Transport | null = null;
+  private serverUrl: string = '';
   private playerId: string = '';
   private username: string = '';
   private worldId: string = '';
+  // World and capabilities confirmed by the server in session:started
+  private world: WorldInfo | null = null;
+  private capabilities: Capability[] = [];
+  // Where the server placed our player when the session started
+  private spawn: SpawnPoint | null = null;
+  // Binary encoding state for the current connection, null while messages are JSON only
+  private codec: ClientCodec | null = null;
+  // Id of the join request in flight; answers to older requests are ignored
+  private pendingJoinRequestId: string | null = null;
+  // Session token of the logged-in account, null when playing as a guest
+  private authToken: string | null = null;
   private isConnected: boolean = false;
-  private config: GameConfig | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+  
+  // Token from the last session:started, sent on reconnect to resume the same session
+  private resumeToken: string | null = null;
+  
+  // Last position sent, re-sent after a resume so the server catches up with movement made offline
+  private lastPosition: MoveRequest | null = null;
+  
+  // Pending connect() promise, settled once the server confirms the join
+  private pendingConnect: { resolve: (connected: boolean) => void; reject: (error: Error) => void } | null = null;
+  
+  // Reconnection with exponential backoff
+  private reconnectAttempts: number = 0;
+  private maxReconnectAttempts: number = 5;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  
+  // Server clock estimate, refreshed with periodic pings while connected
+  private clockSync: ClockSync = new ClockSync();
+  private clockSyncTimeout: ReturnType<typeof setTimeout> | null = null;
   
-  // For development/testing, use a mock mode that doesn't try real connections
-  private mockMode: boolean = true;
+  // Heartbeats while joined, and when the server was last heard from
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private lastServerMessageAt: number = 0;
+  
+  // Connection quality figures for the diagnostics overlay
+  private networkStats: NetworkStats = new NetworkStats();
+  // Send times of move requests not acknowledged yet, to measure round trips and spot drops
+  private moveSendTimes: Map<number, number> = new Map();
+  private lastAckedSequence: number = 0;
+  
+  // Remote players currently in the world, so late subscribers can catch up
+  private remotePlayers: Map<string, RemotePlayer> = new Map();
+  
+  // Capture of the session's messages for bug reports, and the recording being replayed if any
+  private recorder: SessionRecorder = new SessionRecorder();
+  private replay: SessionReplay | null = null;
   
   // Event handlers
   private playerJoinHandlers: Set<PlayerJoinHandler> = new Set();
   private playerLeaveHandlers: Set<PlayerLeaveHandler> = new Set();
   private playerMoveHandlers: Set<PlayerMoveHandler> = new Set();
+  private playerHeartbeatHandlers: Set<PlayerHeartbeatHandler> = new Set();
+  private moveAckHandlers: Set<MoveAckHandler> = new Set();
   private chatMessageHandlers: Set<ChatMessageHandler> = new Set();
   private chunkUpdateHandlers: Set<ChunkUpdateHandler> = new Set();
   private errorHandlers: Set<ErrorHandler> = new Set();
+  private connectionStateHandlers: Set<ConnectionStateHandler> = new Set();
+  
+  // Handlers for each server event, called with an already validated payload
+  private serverMessageHandlers: { [E in ServerEventName]: (payload: ServerPayload<E>) => void } = {
+    'session:started': (data) => {
+      if (data.requestId !== this.pendingJoinRequestId) {
+        console.warn(`[MultiplayerClient] Ignoring session:started for stale join request ${data.requestId}`);
+        return;
+      }
+      
+      this.pendingJoinRequestId = null;
+      this.playerId = data.playerId;
+      this.username = data.username;
+      this.world = data.world;
+      this.worldId = data.world.id;
+      this.spawn = data.spawn;
+      this.capabilities = data.capabilities;
+      this.codec = data.capabilities.includes('binary-codec') ? new ClientCodec() : null;
+      this.resumeToken = data.resumeToken;
+      this.isConnected = true;
+      this.reconnectAttempts = 0;
+      
+      if (data.resumed) {
+        console.log(`[MultiplayerClient] Resumed session as player ${this.playerId} via ${this.transport?.name}`);
+      } else {
+        console.log(`[MultiplayerClient] Joined as player ${this.playerId} via ${this.transport?.name}`);
+        // A new session means a new world view: anyone we still remember is stale
+        Array.from(this.remotePlayers.keys()).forEach(id => this.handlePlayerLeave(id, 'sync'));
+      }
+      
+      this.setConnectionState('connected');
+      this.startClockSync();
+      this.startHeartbeat();
+      this.pendingConnect?.resolve(true);
+      this.pendingConnect = null;
+      
+      if (this.lastPosition) {
+        const { position, direction, isMoving, sequence } = this.lastPosition;
+        this.updatePosition(position, direction, isMoving, sequence);
+      }
+    },
+    
+    'join:rejected': (data) => {
+      if (data.requestId && data.requestId !== this.pendingJoinRequestId) {
+        console.warn(`[MultiplayerClient] Ignoring join:rejected for stale join request ${data.requestId}`);
+        return;
+      }
+      
+      if (data.reason === 'session-expired' && this.transport) {
+        // Nothing left to resume, so join again right away as a new session
+        console.warn('[MultiplayerClient] Session to resume has expired, joining again');
+        this.resumeToken = null;
+        this.sendJoinRequest(this.transport);
+        return;
+      }
+      
+      console.error(`[MultiplayerClient] Join rejected (${data.reason}): ${data.message}`);
+      this.pendingJoinRequestId = null;
+      this.codec = null;
+      this.transport?.close();
+      this.transport = null;
+      this.stopClockSync();
+      this.stopHeartbeat();
+      this.isConnected = false;
+      
+      if (this.reconnectAttempts > 0 && !this.pendingConnect && RETRIED_REJECTIONS.includes(data.reason)) {
+        this.attemptReconnect();
+        return;
+      }
+      
+      // Retrying would only be rejected again
+      this.reconnectAttempts = 0;
+      this.resumeToken = null;
+      this.setConnectionState('disconnected');
+      
+      if (this.pendingConnect) {
+        this.pendingConnect.reject(new JoinError(data.reason, data.message));
+        this.pendingConnect = null;
+      } else {
+        this.handleError(data.message);
+      }
+    },
+    
+    'player:joined': (data) => {
+      if (data.player.id !== this.playerId) {
+        console.log(`[MultiplayerClient] Another player joined: ${data.player.username} (${data.player.id})`);
+        this.handlePlayerJoin(data.player, 'joined');
+      }
+    },
+    
+    'player:left': (data) => {
+      console.log(`[MultiplayerClient] Player left: ${data.playerId}`);
+      this.handlePlayerLeave(data.playerId, 'left');
+    },
+    
+    'player:entered': (data) => {
+      this.handlePlayerJoin(data.player, 'entered-range');
+    },
+    
+    'player:exited': (data) => {
+      this.handlePlayerLeave(data.playerId, 'exited-range');
+    },
+    
+    'player:move': (event) => {
+      const { playerId, position, direction, isMoving } = event.data;
+      
+      // Skip our own movements (server already echoed them back)
+      if (playerId === this.playerId) return;
+      
+      const player = this.remotePlayers.get(playerId);
+      if (player && event.timestamp < player.lastUpdate) {
+        this.networkStats.recordOutOfOrder();
+      }
+      
+      this.handlePlayerMove(playerId, position, direction, isMoving, event.timestamp);
+    },
+    
+    'move:ack': (data) => {
+      this.trackMoveAck(data.sequence);
+      
+      if (data.corrected) {
+        this.networkStats.recordCorrection();
+      }
+      this.moveAckHandlers.forEach(handler => handler(data.sequence, data.position, data.corrected));
+    },
+    
+    'chat:message': (event) => {
+      const { playerId, username, message } = event.data;
+      this.handleChatMessage(playerId, username, message);
+    },
+    
+    'chat:history': (data) => {
+      console.log(`[MultiplayerClient] Received ${data.messages.length} missed chat messages`);
+      data.messages.forEach(({ data: { playerId, username, message } }) =>
+        this.handleChatMessage(playerId, username, message)
+      );
+    },
+    
+    'world:chunks': (data) => {
+      console.log(`[MultiplayerClient] Received ${data.chunks.length} world chunks`);
+      this.handleChunkUpdate(data.chunks);
+    },
+    
+    'world:chunk-sync': (data) => {
+      console.log(`[MultiplayerClient] Received ${data.chunks.length} world chunks to generate`);
+      this.handleChunkSync(data.chunks);
+    },
+    
+    'world:players': (data) => {
+      // Full list of other players in range; after a resume it replaces whatever we remembered
+      const players = data.players.filter(player => player.id !== this.playerId);
+      const currentIds = new Set(players.map(player => player.id));
+      
+      Array.from(this.remotePlayers.keys())
+        .filter(id => !currentIds.has(id))
+        .forEach(id => this.handlePlayerLeave(id, 'sync'));
+      
+      players.forEach((player) => {
+        if (this.remotePlayers.has(player.id)) {
+          this.handlePlayerMove(player.id, player.position, player.direction, player.isMoving, player.lastUpdate);
+        } else {
+          console.log(`[MultiplayerClient] Adding existing player: ${player.username}`);
+          this.handlePlayerJoin(player, 'sync');
+        }
+      });
+    },
+    
+    'time:pong': (data) => {
+      const now = Date.now();
+      this.clockSync.addSample(data.clientTime, data.serverTime, now);
+      this.networkStats.recordRoundTrip(now - data.clientTime);
+    },
+    
+    'heartbeat': (data) => {
+      const players = data.players.filter(id => this.remotePlayers.has(id));
+      this.playerHeartbeatHandlers.forEach(handler => handler(players, data.timestamp));
+    },
+    
+    // Answers to one-shot queries, which are read on the query's own connection (see queryServer)
+    'worlds:list': () => {},
+    'server:status': () => {},
+    'account:authenticated': () => {},
+    'account:logout': () => {},
+    
+    'error': (data) => {
+      console.error('[MultiplayerClient] Server error:', data.message);
+      this.handleError(data.message);
+      this.pendingConnect?.reject(new Error(data.message));
+      this.pendingConnect = null;
+    }
+  };
   
   /**
-   * Connect to the multiplayer server
+   * Connect to the multiplayer server, with an account's session token or as a guest.
+   * The URL scheme picks the transport: http(s):// socket.io, ws(s):// WebSocket, memory:// in-process.
    */
-  public connect(username: string, worldId: string = 'default', serverUrl: string = 'http://localhost:3001'): Promise<boolean> {
+  public connect(
+    username: string,
+    worldId: string = 'default',
+    serverUrl: string = 'http://localhost:3001',
+    authToken: string | null = null
+  ): Promise<boolean> {
     return new Promise((resolve, reject) => {
       if (this.isConnected) {
         resolve(true);
@@ -73,202 +379,520 @@ class MultiplayerClient {
       try {
         this.username = username;
         this.worldId = worldId;
-        
-        console.log(`[MultiplayerClient] Connecting to server at ${serverUrl} as ${username}`);
-        
-        this.socket = io(serverUrl);
-        
-        // Set up connection handlers
-        this.socket.on('connect', () => {
-          console.log('[MultiplayerClient] Connected to server, sending join request');
-          
-          this.socket!.emit('player:join', {
-            username: this.username,
-            worldId: this.worldId
-          });
-        });
-        
-        // Handle successful join
-        this.socket.on('player:joined', (data) => {
-          console.log('[MultiplayerClient] Received player:joined event:', data);
-          
-          // Add detailed player info log
-          console.log(`[DEBUG] Processing join for ${data.player.username} (${data.player.id}) - current client ID: ${this.playerId}`);
-          
-          if (data.player.username === this.username && !this.playerId) {
-            this.playerId = data.player.id;
-            this.isConnected = true;
-            console.log(`[MultiplayerClient] Joined as player ${this.playerId}`);
-            resolve(true);
-            return;
-          }
-          
-          if (data.player.id !== this.playerId) {
-            console.log(`[MultiplayerClient] Another player joined: ${data.player.username} (${data.player.id})`);
-            this.handlePlayerJoin(data.player);
-          } else {
-            console.log('[DEBUG] Ignoring self-join event');
-          }
-        });
-        
-        // Handle player leave
-        this.socket.on('player:left', (data) => {
-          console.log(`[MultiplayerClient] Player left: ${data.playerId}`);
-          this.handlePlayerLeave(data.playerId);
-        });
-        
-        // Handle player movement
-        this.socket.on('player:move', (event) => {
-          try {
-            console.log("🔄 Raw movement event:", event);
-            const { playerId, position, direction, isMoving } = event.data;
-            
-            // Skip our own movements (server already echoed them back)
-            if (playerId === this.playerId) {
-              console.log("Skipping own movement event");
-              return;
-            }
-            
-            console.log(`Remote movement: ${playerId} to (${position.x}, ${position.y})`);
-            this.handlePlayerMove(playerId, position, direction, isMoving);
-          } catch (error) {
-            console.error("Error processing movement event:", error);
-          }
-        });
-        // Handle chat messages
-        this.socket.on('chat:message', (event) => {
-          console.log('[MultiplayerClient] Received chat message:', event.data);
-          const { playerId, username, message } = event.data;
-          this.handleChatMessage(playerId, username, message);
-        });
-        
-        // Handle chunk updates
-        this.socket.on('world:chunks', (data) => {
-          console.log(`[MultiplayerClient] Received ${data.chunks.length} world chunks`);
-          this.handleChunkUpdate(data.chunks);
-        });
-        
-        // Handle existing players data
-        this.socket.on('world:players', (data) => {
-          console.log('[MultiplayerClient] Received existing players:', data.players);
-          data.players.forEach((player: RemotePlayer) => {
-            console.log(`[DEBUG] Processing existing player ${player.username} (${player.id}) - current client ID: ${this.playerId}`);
-            
-            if (player.id !== this.playerId) {
-              console.log(`[MultiplayerClient] Adding existing player: ${player.username}`);
-              this.handlePlayerJoin(player);
-            } else {
-              console.log('[DEBUG] Skipping self in existing players');
-            }
-          });
-        });
-        
-        
-        // Handle errors
-        this.socket.on('error', (data) => {
-          console.error('[MultiplayerClient] Server error:', data.message);
-          this.handleError(data.message);
-          reject(new Error(data.message));
-        });
-        
-        // Handle disconnect
-        this.socket.on('disconnect', () => {
-          console.log('[MultiplayerClient] Disconnected from server');
-          this.isConnected = false;
-        });
-        
-        // Handle connect_error - important for debugging
-        this.socket.on('connect_error', (error) => {
-          console.error('[MultiplayerClient] Connection error:', error);
-          this.handleError(`Connection error: ${error.message}`);
-          reject(error);
-        });
-        
+        this.serverUrl = serverUrl;
+        this.authToken = authToken;
+        this.pendingConnect = { resolve, reject };
+        this.clockSync.reset();
+        this.networkStats.reset();
+        this.moveSendTimes.clear();
+        this.lastAckedSequence = 0;
+        this.setConnectionState('connecting');
+        this.openTransport();
       } catch (error) {
         console.error('[MultiplayerClient] Error connecting to server:', error);
+        this.pendingConnect = null;
+        this.setConnectionState('disconnected');
         reject(error);
       }
     });
   }
   
+  /**
+   * Ask a server which worlds it hosts, with their player counts
+   */
+  public async fetchWorlds(serverUrl: string): Promise<WorldInfo[]> {
+    const { payload } = await this.queryServer(serverUrl, 'worlds:list', {}, 'worlds:list');
+    return payload.worlds;
+  }
+  
+  /**
+   * Ask a server for its name, message of the day, version and population, and measure its ping
+   */
+  public async fetchServerStatus(serverUrl: string): Promise<ServerStatus> {
+    const { payload, roundTripTime } = await this.queryServer(serverUrl, 'server:status', {}, 'server:status');
+    return { ...payload, ping: roundTripTime };
+  }
+  
+  /**
+   * Create an account on a server. The returned session token is passed to connect() to play with it.
+   */
+  public async register(serverUrl: string, username: string, password: string): Promise<AccountSession> {
+    const { payload } = await this.queryServer(serverUrl, 'account:register', { username, password }, 'account:authenticated');
+    return payload;
+  }
+  
+  /**
+   * Log in to an existing account
+   */
+  public async login(serverUrl: string, username: string, password: string): Promise<AccountSession> {
+    const { payload } = await this.queryServer(serverUrl, 'account:login', { username, password }, 'account:authenticated');
+    return payload;
+  }
+  
+  /**
+   * Log in again with a stored session token. The server answers with a fresh token; the old one stops working.
+   */
+  public async resumeAccount(serverUrl: string, token: string): Promise<AccountSession> {
+    const { payload } = await this.queryServer(serverUrl, 'account:resume', { token }, 'account:authenticated');
+    return payload;
+  }
+  
+  /**
+   * End a login session on the server so its token can't be used again
+   */
+  public async logout(serverUrl: string, token: string): Promise<void> {
+    await this.queryServer(serverUrl, 'account:logout', { token }, 'account:logout');
+  }
+  
   /**
    * Send chat message
    */
   public sendChatMessage(message: string): void {
-    if (!this.isConnected || !this.socket) {
+    if (!this.isConnected || !this.transport) {
       console.error('[MultiplayerClient] Cannot send message: not connected');
       return;
     }
     
-    console.log(`[MultiplayerClient] Sending chat message: "${message}"`);
-    this.socket.emit('chat:message', message);
+    this.send('chat:message', message);
   }
   
   /**
-   * Disconnect from the server
+   * Ask the server for chunks, answered through onChunkUpdate.
+   * Returns false if the request couldn't be sent (not connected).
+   */
+  public requestChunks(chunks: ChunkCoordinates[]): boolean {
+    if (!this.isConnected || !this.transport) return false;
+    
+    if (chunks.length > 0) {
+      this.send('world:request-chunks', { chunks });
+    }
+    return true;
+  }
+  
+  /**
+   * Disconnect from the server and end the session (no resume possible afterwards)
    */
   public disconnect(): void {
-    if (this.mockMode) {
-      this.isConnected = false;
-      return;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
+    this.stopClockSync();
+    this.stopHeartbeat();
     
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
+    if (this.transport) {
+      // Tell the server we're gone for good so it doesn't keep our player around waiting for a resume
+      if (this.isConnected && this.transport.isOpen()) {
+        this.send('player:leave', {});
+      }
+      this.transport.close();
+      this.transport = null;
     }
     
+    this.replay?.stop();
+    this.replay = null;
+    this.reconnectAttempts = 0;
+    this.pendingJoinRequestId = null;
+    this.pendingConnect?.reject(new Error('Disconnected before the join completed'));
+    this.pendingConnect = null;
+    this.playerId = '';
+    this.world = null;
+    this.spawn = null;
+    this.capabilities = [];
+    this.codec = null;
+    this.resumeToken = null;
+    this.authToken = null;
+    this.lastPosition = null;
     this.isConnected = false;
+    this.remotePlayers.clear();
+    this.setConnectionState('disconnected');
   }
   
   /**
-   * Send player position update
+   * Send player position update. The sequence number comes back in a move ack once the server has applied it.
    */
-  public updatePosition(position: Position, direction: Direction, isMoving: boolean): void {
+  public updatePosition(position: Position, direction: Direction, isMoving: boolean, sequence: number): void {
+    this.lastPosition = { sequence, position, direction, isMoving };
     if (!this.isConnected) return;
     
-    if (this.mockMode) {
-      // Simulate notifying other "players" about our movement
+    if (this.transport) {
+      this.send('player:move', this.lastPosition);
+      this.moveSendTimes.set(sequence, Date.now());
+    }
+  }
+  
+  
+  /**
+   * Create a transport for the current server URL and send the join request once it opens
+   */
+  private openTransport(): void {
+    console.log(`[MultiplayerClient] Connecting to server at ${this.serverUrl} as ${this.username}`);
+    
+    const transport = createTransport(this.serverUrl);
+    this.transport = transport;
+    
+    transport.connect(this.serverUrl, {
+      onOpen: () => {
+        console.log(`[MultiplayerClient] Connected over ${transport.name}`);
+        this.sendJoinRequest(transport);
+      },
+      onMessage: (event, payload) => this.handleServerMessage(event, payload),
+      onClose: (reason) => this.handleTransportClose(transport, reason),
+      onError: (error) => this.handleTransportError(transport, error)
+    });
+  }
+  
+  /**
+   * Ask to join the world, resuming the last session if we have its token. Answers to earlier requests are ignored from now on.
+   */
+  private sendJoinRequest(transport: Transport): void {
+    this.pendingJoinRequestId = createRequestId();
+    console.log(`[MultiplayerClient] Sending join request ${this.pendingJoinRequestId}`);
+    this.send('player:join', {
+      requestId: this.pendingJoinRequestId,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: getSupportedCapabilities(),
+      username: this.username,
+      worldId: this.worldId,
+      ...(this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+      ...(this.authToken ? { authToken: this.authToken } : {})
+    }, transport);
+  }
+  
+  /**
+   * Send an event over a transport (the current one by default), counting it for the network stats.
+   * Events with a binary form are encoded with the session's codec, if one was negotiated.
+   */
+  private send<E extends ClientEventName>(event: E, payload: ClientPayload<E>, transport: Transport | null = this.transport): void {
+    if (!transport) return;
+    
+    this.recorder.record('out', event, payload);
+    const encoded = transport === this.transport ? this.codec?.encode(event, payload) : null;
+    if (encoded) {
+      transport.sendBinary(event, encoded);
+      this.networkStats.recordOutgoing(estimateMessageSize(event, encoded));
+      return;
+    }
+    
+    transport.send(event, payload);
+    this.networkStats.recordOutgoing(estimateMessageSize(event, payload));
+  }
+  
+  /**
+   * Measure the round trip of an acknowledged move request. Requests sent before it that were
+   * never acknowledged were dropped; an ack older than the last one arrived out of order.
+   */
+  private trackMoveAck(sequence: number): void {
+    if (sequence <= this.lastAckedSequence) {
+      this.networkStats.recordOutOfOrder();
       return;
     }
+    this.lastAckedSequence = sequence;
     
-    if (this.socket) {
-      this.socket.emit('player:move', {
-        position,
-        direction,
-        isMoving
+    this.moveSendTimes.forEach((sentAt, sentSequence) => {
+      if (sentSequence > sequence) return;
+      
+      if (sentSequence === sequence) {
+        this.networkStats.recordRoundTrip(Date.now() - sentAt);
+      } else {
+        this.networkStats.recordDropped();
+      }
+      this.moveSendTimes.delete(sentSequence);
+    });
+  }
+  
+  /**
+   * Send a request and wait for its answer, over a short-lived connection of its own,
+   * so it works before joining and doesn't disturb a running session
+   */
+  private queryServer<R extends ClientEventName, A extends ServerEventName>(
+    serverUrl: string,
+    request: R,
+    payload: ClientPayload<R>,
+    answer: A
+  ): Promise<{ payload: ServerPayload<A>; roundTripTime: number }> {
+    return new Promise((resolve, reject) => {
+      const transport = createTransport(serverUrl);
+      let sentAt = 0;
+      let settled = false;
+      
+      const finish = (result: Error | ServerPayload<A>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        transport.close();
+        
+        if (result instanceof Error) {
+          reject(result);
+        } else {
+          resolve({ payload: result, roundTripTime: Date.now() - sentAt });
+        }
+      };
+      
+      const timeout = setTimeout(() => finish(new Error(`Timed out waiting for "${answer}"`)), QUERY_TIMEOUT);
+      
+      transport.connect(serverUrl, {
+        onOpen: () => {
+          sentAt = Date.now();
+          transport.send(request, payload);
+        },
+        onMessage: (received, receivedPayload) => {
+          if (received === answer) {
+            const validationError = validateServerMessage(answer, receivedPayload);
+            finish(validationError ? new Error(`Malformed "${answer}" answer: ${validationError}`) : receivedPayload as ServerPayload<A>);
+          } else if (received === 'error' && !validateServerMessage(received, receivedPayload)) {
+            finish(new Error((receivedPayload as ServerPayload<'error'>).message));
+          }
+        },
+        onClose: (reason) => finish(new Error(`Connection closed: ${reason}`)),
+        onError: (error) => finish(error)
       });
+    });
+  }
+  
+  /**
+   * Forget a remote player we haven't heard anything about for too long, in case the server's leave never arrived
+   */
+  public dropStalePlayer(playerId: string): void {
+    if (!this.remotePlayers.has(playerId)) return;
+    
+    console.log(`[MultiplayerClient] Dropping stale player ${playerId}`);
+    this.handlePlayerLeave(playerId, 'timed-out');
+  }
+  
+  /**
+   * Start pinging the server to keep the clock estimate fresh
+   */
+  private startClockSync(): void {
+    this.stopClockSync();
+    this.sendTimePing();
+    this.scheduleClockSync();
+  }
+  
+  private scheduleClockSync(): void {
+    const delay = this.clockSync.getSampleCount() < CLOCK_SYNC_BURST ? CLOCK_SYNC_BURST_INTERVAL : CLOCK_SYNC_INTERVAL;
+    
+    this.clockSyncTimeout = setTimeout(() => {
+      this.sendTimePing();
+      this.scheduleClockSync();
+    }, delay);
+  }
+  
+  private stopClockSync(): void {
+    if (this.clockSyncTimeout) {
+      clearTimeout(this.clockSyncTimeout);
+      this.clockSyncTimeout = null;
     }
   }
-
+  
   /**
-   * Set game configuration
+   * Send heartbeats while joined, and reconnect if the server has gone silent
    */
-  public setConfig(config: GameConfig): void {
-    this.config = config;
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastServerMessageAt = Date.now();
+    
+    this.heartbeatInterval = setInterval(() => {
+      const transport = this.transport;
+      if (!transport) return;
+      
+      if (Date.now() - this.lastServerMessageAt > SERVER_TIMEOUT) {
+        console.warn('[MultiplayerClient] Nothing heard from the server for too long, dropping the connection');
+        // Closing doesn't report back through onClose, so run the usual close handling (and reconnect) directly
+        transport.close();
+        this.handleTransportClose(transport, 'server stopped responding');
+        return;
+      }
+      
+      this.send('heartbeat', {});
+    }, HEARTBEAT_INTERVAL);
+  }
+  
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+  
+  private sendTimePing(): void {
+    if (this.transport?.isOpen()) {
+      this.send('time:ping', { clientTime: Date.now() });
+    }
+  }
+  
+  /**
+   * Validate an incoming server event and dispatch it.
+   * Malformed payloads and handler failures are reported through onError instead of throwing.
+   */
+  private handleServerMessage(event: string, payload: unknown): void {
+    if (!isServerEventName(event)) {
+      console.warn(`[MultiplayerClient] Ignoring unknown server event "${event}"`);
+      return;
+    }
+    
+    const eventName = event as ServerEventName;
+    this.lastServerMessageAt = Date.now();
+    this.networkStats.recordIncoming(estimateMessageSize(event, payload));
+    
+    if (isBinaryPayload(payload)) {
+      if (!this.codec) {
+        this.handleError(`Unexpected binary "${eventName}" message`);
+        return;
+      }
+      
+      try {
+        payload = this.codec.decode(eventName, toBytes(payload));
+      } catch (error) {
+        const reason = error instanceof CodecError ? error.message : String(error);
+        console.warn(`[MultiplayerClient] Could not decode binary "${eventName}" message: ${reason}`);
+        this.handleError(`Could not decode binary "${eventName}" message: ${reason}`);
+        return;
+      }
+    }
+    
+    this.recorder.record('in', eventName, payload);
+    this.dispatchServerMessage(eventName, payload);
+  }
+  
+  /**
+   * Validate a received (or replayed) server event and pass it to its handler
+   */
+  private dispatchServerMessage(eventName: ServerEventName, payload: unknown): void {
+    const validationError = validateServerMessage(eventName, payload);
+    if (validationError) {
+      console.warn(`[MultiplayerClient] Rejected malformed "${eventName}" message: ${validationError}`);
+      this.handleError(`Malformed "${eventName}" message: ${validationError}`);
+      return;
+    }
+    
+    try {
+      (this.serverMessageHandlers[eventName] as (payload: unknown) => void)(payload);
+    } catch (error) {
+      console.error(`[MultiplayerClient] Error handling "${eventName}" message:`, error);
+      this.handleError(`Error handling "${eventName}" message: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Handle the transport closing without the client asking for it
+   */
+  private handleTransportClose(transport: Transport, reason: string): void {
+    if (this.transport !== transport) return;
+    
+    console.log(`[MultiplayerClient] Disconnected from server: ${reason}`);
+    
+    const wasConnected = this.isConnected;
+    this.transport = null;
+    this.codec = null;
+    this.stopClockSync();
+    this.stopHeartbeat();
+    // Requests in flight are lost with the connection, that's not the same as the network dropping them
+    this.moveSendTimes.clear();
+    this.isConnected = false;
+    
+    if (this.pendingConnect) {
+      this.pendingConnect.reject(new Error(`Connection closed: ${reason}`));
+      this.pendingConnect = null;
+      this.setConnectionState('disconnected');
+      return;
+    }
+    
+    if (wasConnected || this.reconnectAttempts > 0) {
+      this.attemptReconnect();
+    }
+  }
+  
+  /**
+   * Handle a transport-level error (e.g. the server is unreachable)
+   */
+  private handleTransportError(transport: Transport, error: Error): void {
+    if (this.transport !== transport) return;
+    
+    console.error('[MultiplayerClient] Connection error:', error);
+    this.handleError(`Connection error: ${error.message}`);
+    
+    // Errors on an established connection are followed by a close, if they matter at all
+    if (this.isConnected) return;
+    
+    transport.close();
+    this.transport = null;
+    
+    if (this.pendingConnect) {
+      this.pendingConnect.reject(error);
+      this.pendingConnect = null;
+      this.setConnectionState('disconnected');
+      return;
+    }
+    
+    if (this.reconnectAttempts > 0) {
+      this.attemptReconnect();
+    }
+  }
+  
+  /**
+   * Attempt to reconnect after disconnection
+   */
+  private attemptReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.log('[MultiplayerClient] Max reconnect attempts reached');
+      this.resumeToken = null;
+      this.setConnectionState('disconnected');
+      this.handleError('Lost connection to server');
+      return;
+    }
+    
+    this.reconnectAttempts++;
+    this.setConnectionState('reconnecting');
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
+    
+    console.log(`[MultiplayerClient] Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+    
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.isConnected) return;
+      
+      // The join request carries our resume token, so the server can restore the same player
+      try {
+        this.openTransport();
+      } catch (error) {
+        console.error('[MultiplayerClient] Reconnect failed:', error);
+        this.attemptReconnect();
+      }
+    }, delay);
   }
   
   /**
    * Handler for player join events
    */
-  private handlePlayerJoin(player: RemotePlayer): void {
-    this.playerJoinHandlers.forEach(handler => handler(player));
+  private handlePlayerJoin(player: RemotePlayer, reason: PlayerJoinReason): void {
+    this.remotePlayers.set(player.id, player);
+    this.playerJoinHandlers.forEach(handler => handler(player, reason));
   }
   
   /**
    * Handler for player leave events
    */
-  private handlePlayerLeave(playerId: string): void {
-    this.playerLeaveHandlers.forEach(handler => handler(playerId));
+  private handlePlayerLeave(playerId: string, reason: PlayerLeaveReason): void {
+    this.remotePlayers.delete(playerId);
+    this.playerLeaveHandlers.forEach(handler => handler(playerId, reason));
   }
   
   /**
    * Handler for player movement events
    */
-  private handlePlayerMove(playerId: string, position: Position, direction: Direction, isMoving: boolean): void {
-    console.log(`🔄 RECEIVED MOVEMENT: Player ${playerId} to position (${position.x}, ${position.y}), isMoving: ${isMoving}`);
+  private handlePlayerMove(playerId: string, position: Position, direction: Direction, isMoving: boolean, timestamp: number): void {
+    const player = this.remotePlayers.get(playerId);
+    if (player) {
+      this.remotePlayers.set(playerId, { ...player, position, direction, isMoving, lastUpdate: timestamp });
+    }
+    
     this.playerMoveHandlers.forEach(handler => 
-      handler(playerId, position, direction, isMoving)
+      handler(playerId, position, direction, isMoving, timestamp)
     );
   }
   
@@ -288,6 +912,36 @@ class MultiplayerClient {
     this.chunkUpdateHandlers.forEach(handler => handler(chunks));
   }
   
+  /**
+   * Generate synced chunks from the world seed and apply their changes. Chunks that come out
+   * different from the server's (checksum mismatch) are asked for again in full.
+   */
+  private handleChunkSync(synced: ChunkSync[]): void {
+    if (!this.world) return;
+    
+    const { chunkSize, seed } = this.world.config;
+    const chunks: WorldChunk[] = [];
+    const mismatched: ChunkCoordinates[] = [];
+    
+    synced.forEach(({ x, y, diff, checksum, version }) => {
+      const chunk = { ...applyChunkDiff(generateChunk(x, y, chunkSize, seed), diff), version };
+      if (getChunkChecksum(chunk) === checksum) {
+        chunks.push(chunk);
+      } else {
+        mismatched.push({ x, y });
+      }
+    });
+    
+    if (mismatched.length > 0) {
+      console.warn(`[MultiplayerClient] ${mismatched.length} chunks don't match the server, requesting a resync`);
+      this.send('world:resync', { chunks: mismatched });
+    }
+    
+    if (chunks.length > 0) {
+      this.handleChunkUpdate(chunks);
+    }
+  }
+  
   /**
    * Handler for error events
    */
@@ -295,20 +949,12 @@ class MultiplayerClient {
     this.errorHandlers.forEach(handler => handler(message));
   }
   
-
-  
-  /**
-   * Creates seeded random number generator
-   */
-  private createSeededRandom(seed: number) {
-    let state = seed;
-    return () => {
-      state = (state * 9301 + 49297) % 233280;
-      return state / 233280;
-    };
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.connectionStateHandlers.forEach(handler => handler(state));
   }
   
-
   /**
    * Add event handlers
    */
@@ -324,6 +970,14 @@ class MultiplayerClient {
     this.playerMoveHandlers.add(handler);
   }
   
+  public onPlayerHeartbeat(handler: PlayerHeartbeatHandler): void {
+    this.playerHeartbeatHandlers.add(handler);
+  }
+  
+  public onMoveAck(handler: MoveAckHandler): void {
+    this.moveAckHandlers.add(handler);
+  }
+  
   public onChatMessage(handler: ChatMessageHandler): void {
     this.chatMessageHandlers.add(handler);
   }
@@ -336,6 +990,10 @@ class MultiplayerClient {
     this.errorHandlers.add(handler);
   }
   
+  public onConnectionStateChange(handler: ConnectionStateHandler): void {
+    this.connectionStateHandlers.add(handler);
+  }
+  
   /**
    * Remove event handlers
    */
@@ -351,6 +1009,14 @@ class MultiplayerClient {
     this.playerMoveHandlers.delete(handler);
   }
   
+  public offPlayerHeartbeat(handler: PlayerHeartbeatHandler): void {
+    this.playerHeartbeatHandlers.delete(handler);
+  }
+  
+  public offMoveAck(handler: MoveAckHandler): void {
+    this.moveAckHandlers.delete(handler);
+  }
+  
   public offChatMessage(handler: ChatMessageHandler): void {
     this.chatMessageHandlers.delete(handler);
   }
@@ -363,6 +1029,10 @@ class MultiplayerClient {
     this.errorHandlers.delete(handler);
   }
   
+  public offConnectionStateChange(handler: ConnectionStateHandler): void {
+    this.connectionStateHandlers.delete(handler);
+  }
+  
   /**
    * Check connection status
    */
@@ -370,60 +1040,181 @@ class MultiplayerClient {
     return this.isConnected;
   }
   
+  /**
+   * Get the current connection state
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+  
+  /**
+   * Current time on the server clock, for anything that must agree between clients
+   */
+  public serverNow(): number {
+    return this.clockSync.serverNow();
+  }
+  
+  /**
+   * Average round trip time to the server (ms), 0 before the first clock sync
+   */
+  public getRoundTripTime(): number {
+    return this.clockSync.getRoundTripTime();
+  }
+  
+  /**
+   * Connection quality figures: round trip, jitter, traffic rates, dropped and out-of-order updates
+   */
+  public getNetworkStats(): NetworkStatsSnapshot {
+    return this.networkStats.getSnapshot();
+  }
+  
+  /**
+   * Get the id of the world joined with the last connect()
+   */
+  public getWorldId(): string {
+    return this.worldId;
+  }
+  
+  /**
+   * Get the world the server placed us in, null until a join succeeds.
+   * Its config holds the world's rules (size, chunks, speed, time scale), which the server is authoritative for.
+   */
+  public getWorld(): WorldInfo | null {
+    return this.world;
+  }
+  
+  /**
+   * Get where the server placed our player when the session started: where the account last left the world,
+   * or the world's spawn point. Null until a join succeeds.
+   */
+  public getSpawn(): SpawnPoint | null {
+    return this.spawn;
+  }
+  
+  /**
+   * Check whether the server agreed to use an optional protocol feature for this session
+   */
+  public hasCapability(capability: Capability): boolean {
+    return this.capabilities.includes(capability);
+  }
+  
   /**
    * Get current player ID
    */
   public getPlayerId(): string {
     return this.playerId;
   }
-
-  // Add this method to the MultiplayerClient class
-public simulatePlayerMovement(playerId: string): void {
-  console.log("Simulating movement for player:", playerId);
-  
-  // Get the current player data
-  const players = Array.from(document.querySelectorAll('[data-player-id]'))
-    .map(el => ({
-      id: el.getAttribute('data-player-id'),
-      position: {
-        x: parseFloat(el.getAttribute('data-pos-x') || '0'),
-        y: parseFloat(el.getAttribute('data-pos-y') || '0')
-      }
-    }));
+  
+  /**
+   * Start capturing every message sent and received, e.g. to reproduce a bug
+   */
+  public startRecording(): void {
+    this.recorder.start({
+      serverUrl: this.serverUrl,
+      protocolVersion: PROTOCOL_VERSION,
+      playerId: this.playerId,
+      username: this.username,
+      world: this.world
+    });
+    console.log('[MultiplayerClient] Recording started');
+  }
+  
+  /**
+   * Stop capturing messages and get the recording, null if none was running
+   */
+  public stopRecording(): SessionRecording | null {
+    const recording = this.recorder.stop();
+    if (recording) {
+      console.log(`[MultiplayerClient] Recording stopped: ${recording.events.length} messages over ${Math.round(recording.duration / 1000)}s`);
+    }
+    return recording;
+  }
+  
+  public isRecording(): boolean {
+    return this.recorder.isRecording();
+  }
+  
+  /**
+   * Feed a recording's received messages through the usual handlers (onPlayerMove, onChatMessage,
+   * onChunkUpdate, ...) instead of a server's. Only possible while disconnected.
+   */
+  public startReplay(recording: SessionRecording): SessionReplay {
+    if (this.transport || this.isConnected) {
+      throw new Error('Disconnect before replaying a recording');
+    }
+    
+    this.stopReplay();
+    this.playerId = recording.playerId;
+    this.username = recording.username;
+    this.world = recording.world;
     
-  const playerToMove = players.find(p => p.id === playerId);
+    this.replay = new SessionReplay(recording, {
+      dispatch: (event, payload) => {
+        if (NOT_REPLAYED_EVENTS.includes(event) || !isServerEventName(event)) return;
+        this.dispatchServerMessage(event, payload);
+      },
+      reset: () => this.resetReplayedState()
+    });
+    console.log(`[MultiplayerClient] Replaying ${recording.events.length} recorded messages`);
+    return this.replay;
+  }
   
-  if (!playerToMove) {
-    console.warn("Could not find player to move:", playerId);
-    return;
+  /**
+   * End a replay and forget the players it brought in
+   */
+  public stopReplay(): void {
+    if (!this.replay) return;
+    
+    this.replay.stop();
+    this.replay = null;
+    this.resetReplayedState();
+    this.playerId = '';
+    this.world = null;
   }
   
-  // Create a random movement within a 50px radius
-  const newPosition = {
-    x: playerToMove.position.x + (Math.random() * 100 - 50),
-    y: playerToMove.position.y + (Math.random() * 100 - 50)
-  };
+  public isReplaying(): boolean {
+    return this.replay !== null;
+  }
   
-  // Simulate receiving a movement update
-  this.handlePlayerMove(
-    playerId, 
-    newPosition, 
-    ['up', 'down', 'left', 'right'][Math.floor(Math.random() * 4)] as Direction, 
-    true
-  );
-  
-  // After a moment, stop moving
-  setTimeout(() => {
-    this.handlePlayerMove(
-      playerId, 
-      newPosition, 
-      ['up', 'down', 'left', 'right'][Math.floor(Math.random() * 4)] as Direction, 
-      false
-    );
-  }, 1000);
-}
+  /**
+   * Drop the remote players a replay brought in, telling subscribers they are gone
+   */
+  private resetReplayedState(): void {
+    Array.from(this.remotePlayers.keys()).forEach(id => this.handlePlayerLeave(id, 'sync'));
+    this.lastAckedSequence = 0;
+  }
+  
+  /**
+   * Get the remote players currently known to be in the world
+   */
+  public getRemotePlayers(): RemotePlayer[] {
+    return Array.from(this.remotePlayers.values());
+  }
 }
 
+// Id echoed back in the answer to a join request, so answers to an abandoned attempt can be told apart
+const createRequestId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Approximate size of a message on the wire; transports add a little framing on top
+const estimateMessageSize = (event: string, payload: unknown): number => {
+  if (isBinaryPayload(payload)) return event.length + payload.byteLength;
+  return event.length + (payload === undefined ? 0 : JSON.stringify(payload).length);
+};
+
+// Capabilities to offer when joining, leaving out the binary codec if JSON was asked for
+const getSupportedCapabilities = (): Capability[] => {
+  let jsonOnly = false;
+  try {
+    // Looked up on globalThis so the client also runs headless in Node, where there is no storage
+    const storage = (globalThis as { localStorage?: { getItem(key: string): string | null } }).localStorage;
+    jsonOnly = storage?.getItem(JSON_ONLY_STORAGE_KEY) === '1';
+  } catch {
+    // Storage can be unavailable (privacy settings); the binary codec is fine then
+  }
+  return CAPABILITIES.filter(capability => capability !== 'binary-codec' || !jsonOnly);
+};
+
 // Create singleton instance
 const multiplayerClient = new MultiplayerClient();
 export default multiplayerClient;
\ No newline at end of file
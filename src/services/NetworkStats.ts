@@ -0,0 +1,163 @@
+// src/services/NetworkStats.ts
+
+// One second of traffic
+export interface NetworkStatsSample {
+  // Start of the second (local time, ms)
+  time: number;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+  // Average round trip measured during the second, null if there was none
+  roundTripTime: number | null;
+}
+
+export interface NetworkStatsSnapshot {
+  // Latest round trip time and its smoothed variation (ms)
+  roundTripTime: number | null;
+  jitter: number;
+  // Rates over the last complete second
+  messagesInPerSecond: number;
+  messagesOutPerSecond: number;
+  bytesInPerSecond: number;
+  bytesOutPerSecond: number;
+  // Totals since the collector was created or reset
+  droppedUpdates: number;
+  outOfOrderUpdates: number;
+  // Own moves the server rejected or clamped
+  corrections: number;
+  history: NetworkStatsSample[];
+}
+
+const emptySample = (time: number): NetworkStatsSample & { roundTripSum: number; roundTripCount: number } => ({
+  time,
+  messagesIn: 0,
+  messagesOut: 0,
+  bytesIn: 0,
+  bytesOut: 0,
+  roundTripTime: null,
+  roundTripSum: 0,
+  roundTripCount: 0
+});
+
+/**
+ * Collects connection quality figures for the diagnostics overlay.
+ * Traffic is bucketed per second; the last historySize seconds are kept for the graph.
+ */
+export class NetworkStats {
+  private historySize: number;
+  private history: NetworkStatsSample[] = [];
+  private current = emptySample(this.currentSecond());
+  private roundTripTime: number | null = null;
+  private jitter: number = 0;
+  private droppedUpdates: number = 0;
+  private outOfOrderUpdates: number = 0;
+  private corrections: number = 0;
+
+  constructor(historySize: number = 60) {
+    this.historySize = historySize;
+  }
+
+  public recordIncoming(bytes: number): void {
+    this.rollOver();
+    this.current.messagesIn++;
+    this.current.bytesIn += bytes;
+  }
+
+  public recordOutgoing(bytes: number): void {
+    this.rollOver();
+    this.current.messagesOut++;
+    this.current.bytesOut += bytes;
+  }
+
+  /**
+   * Record a measured round trip. Jitter is smoothed the way RTP does it (RFC 3550).
+   */
+  public recordRoundTrip(roundTripTime: number): void {
+    this.rollOver();
+
+    if (this.roundTripTime !== null) {
+      this.jitter += (Math.abs(roundTripTime - this.roundTripTime) - this.jitter) / 16;
+    }
+    this.roundTripTime = roundTripTime;
+
+    this.current.roundTripSum += roundTripTime;
+    this.current.roundTripCount++;
+  }
+
+  /**
+   * Updates that never arrived (e.g. a gap in acknowledged sequence numbers)
+   */
+  public recordDropped(count: number = 1): void {
+    this.droppedUpdates += count;
+  }
+
+  /**
+   * Updates older than one already received
+   */
+  public recordOutOfOrder(): void {
+    this.outOfOrderUpdates++;
+  }
+
+  public recordCorrection(): void {
+    this.corrections++;
+  }
+
+  public reset(): void {
+    this.history = [];
+    this.current = emptySample(this.currentSecond());
+    this.roundTripTime = null;
+    this.jitter = 0;
+    this.droppedUpdates = 0;
+    this.outOfOrderUpdates = 0;
+    this.corrections = 0;
+  }
+
+  public getSnapshot(): NetworkStatsSnapshot {
+    this.rollOver();
+    const last = this.history[this.history.length - 1];
+
+    return {
+      roundTripTime: this.roundTripTime,
+      jitter: this.jitter,
+      messagesInPerSecond: last?.messagesIn ?? 0,
+      messagesOutPerSecond: last?.messagesOut ?? 0,
+      bytesInPerSecond: last?.bytesIn ?? 0,
+      bytesOutPerSecond: last?.bytesOut ?? 0,
+      droppedUpdates: this.droppedUpdates,
+      outOfOrderUpdates: this.outOfOrderUpdates,
+      corrections: this.corrections,
+      history: [...this.history]
+    };
+  }
+
+  /**
+   * Close the current bucket once its second is over, adding empty buckets for silent seconds
+   */
+  private rollOver(): void {
+    const second = this.currentSecond();
+
+    // After a long silence only the last historySize seconds matter
+    if (second - this.current.time > this.historySize * 1000) {
+      this.history = [];
+      this.current = emptySample(second - this.historySize * 1000);
+    }
+
+    while (this.current.time < second) {
+      const { roundTripSum, roundTripCount, ...sample } = this.current;
+      this.history.push({
+        ...sample,
+        roundTripTime: roundTripCount > 0 ? roundTripSum / roundTripCount : null
+      });
+      this.current = emptySample(this.current.time + 1000);
+    }
+
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize);
+    }
+  }
+
+  private currentSecond(): number {
+    return Math.floor(Date.now() / 1000) * 1000;
+  }
+}
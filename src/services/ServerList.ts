@@ -0,0 +1,145 @@
+// src/services/ServerList.ts
+import { AccountSession } from './MultiPlayerClient';
+
+// A server the player has added to the server browser
+export interface SavedServer {
+  url: string;
+  // Name reported by the server the last time it answered a status query
+  name: string;
+  favorite: boolean;
+  // Last successful join (ms), 0 if never joined
+  lastUsed: number;
+  // Account logged in on this server, used to log in again automatically
+  account: AccountSession | null;
+}
+
+export const DEFAULT_SERVER_URL = 'http://localhost:3001';
+
+// Server URLs the client can connect to: socket.io over http(s), or a native WebSocket
+export const SERVER_URL_PATTERN = /^(https?|wss?):\/\/.+/;
+
+const STORAGE_KEY = 'forest-explorer:servers';
+
+/**
+ * The servers shown in the server browser, kept in local storage.
+ * Favorites come first, then the most recently used servers.
+ */
+export class ServerList {
+  private storage: Storage | null;
+  private servers: SavedServer[];
+
+  constructor(storage: Storage | null = typeof localStorage === 'undefined' ? null : localStorage) {
+    this.storage = storage;
+    this.servers = this.load();
+  }
+
+  public getServers(): SavedServer[] {
+    return [...this.servers].sort((a, b) =>
+      Number(b.favorite) - Number(a.favorite) || b.lastUsed - a.lastUsed
+    );
+  }
+
+  /**
+   * The server joined most recently, or the default one if none was
+   */
+  public getLastUsedServer(): string {
+    const lastUsed = this.servers.reduce<SavedServer | null>(
+      (latest, server) => (server.lastUsed > (latest?.lastUsed ?? 0) ? server : latest),
+      null
+    );
+    return lastUsed?.url ?? DEFAULT_SERVER_URL;
+  }
+
+  /**
+   * Add a server if it isn't in the list yet
+   */
+  public addServer(url: string): void {
+    if (this.find(url)) return;
+
+    this.servers.push({ url, name: '', favorite: false, lastUsed: 0, account: null });
+    this.save();
+  }
+
+  public removeServer(url: string): void {
+    this.servers = this.servers.filter(server => server.url !== url);
+    this.save();
+  }
+
+  public toggleFavorite(url: string): void {
+    this.update(url, server => ({ ...server, favorite: !server.favorite }));
+  }
+
+  /**
+   * Remember the name a server reported, so it is shown even while the server is offline
+   */
+  public setServerName(url: string, name: string): void {
+    if (this.find(url)?.name === name) return;
+    this.update(url, server => ({ ...server, name }));
+  }
+
+  public getAccount(url: string): AccountSession | null {
+    return this.find(url)?.account ?? null;
+  }
+
+  /**
+   * Remember the account logged in on a server (null after logging out), adding the server if needed
+   */
+  public setAccount(url: string, account: AccountSession | null): void {
+    this.addServer(url);
+    this.update(url, server => ({ ...server, account }));
+  }
+
+  /**
+   * Record a successful join, adding the server to the list if needed
+   */
+  public markUsed(url: string): void {
+    this.addServer(url);
+    this.update(url, server => ({ ...server, lastUsed: Date.now() }));
+  }
+
+  private find(url: string): SavedServer | undefined {
+    return this.servers.find(server => server.url === url);
+  }
+
+  private update(url: string, change: (server: SavedServer) => SavedServer): void {
+    this.servers = this.servers.map(server => (server.url === url ? change(server) : server));
+    this.save();
+  }
+
+  private load(): SavedServer[] {
+    const defaults = [{ url: DEFAULT_SERVER_URL, name: '', favorite: false, lastUsed: 0, account: null }];
+
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      if (!stored) return defaults;
+
+      const parsed: unknown = JSON.parse(stored);
+      if (!Array.isArray(parsed)) return defaults;
+
+      // Drop entries written by an older or broken version instead of failing on them
+      return parsed
+        .filter((server): server is SavedServer =>
+          typeof server?.url === 'string' &&
+          typeof server.name === 'string' &&
+          typeof server.favorite === 'boolean' &&
+          typeof server.lastUsed === 'number'
+        )
+        .map(server => ({ ...server, account: server.account ?? null }));
+    } catch (error) {
+      console.warn('[ServerList] Could not read saved servers:', error);
+      return defaults;
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.servers));
+    } catch (error) {
+      console.warn('[ServerList] Could not save servers:', error);
+    }
+  }
+}
+
+// Shared instance used by the login screen
+const serverList = new ServerList();
+export default serverList;
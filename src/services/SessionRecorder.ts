@@ -0,0 +1,113 @@
+// file: src/services/SessionRecorder.ts
+import { WorldInfo } from '../utils/protocol';
+
+export type RecordedDirection = 'in' | 'out';
+
+// One message as the client's handlers saw it; binary messages are stored decoded
+export interface RecordedEvent {
+  // ms since the recording started
+  time: number;
+  direction: RecordedDirection;
+  event: string;
+  payload: unknown;
+}
+
+export const RECORDING_FORMAT = 'forest-explorer-recording';
+export const RECORDING_VERSION = 1;
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  // Wall clock time the recording started
+  startedAt: number;
+  // ms from the start to the end of the recording
+  duration: number;
+  serverUrl: string;
+  protocolVersion: number;
+  playerId: string;
+  username: string;
+  // World being played, which replays need for its config and to generate chunks
+  world: WorldInfo | null;
+  events: RecordedEvent[];
+}
+
+export type RecordingDetails = Pick<SessionRecording, 'serverUrl' | 'protocolVersion' | 'playerId' | 'username' | 'world'>;
+
+export class RecordingError extends Error {}
+
+/**
+ * Captures every message a client sends and receives, with timestamps, so a session can be
+ * attached to a bug report and replayed later
+ */
+export class SessionRecorder {
+  private recording: SessionRecording | null = null;
+
+  public start(details: RecordingDetails): void {
+    this.recording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: Date.now(),
+      duration: 0,
+      ...details,
+      events: []
+    };
+  }
+
+  /**
+   * Add a message to the recording, if one is running
+   */
+  public record(direction: RecordedDirection, event: string, payload: unknown): void {
+    if (!this.recording) return;
+
+    this.recording.events.push({ time: Date.now() - this.recording.startedAt, direction, event, payload });
+  }
+
+  /**
+   * End the recording and return it, or null if none was running
+   */
+  public stop(): SessionRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.recording = null;
+    recording.duration = Date.now() - recording.startedAt;
+    return recording;
+  }
+
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+}
+
+/**
+ * Read a downloaded recording, throwing a RecordingError if it isn't one
+ */
+export const parseRecording = (text: string): SessionRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecordingError('Not a recording: the file is not valid JSON');
+  }
+
+  const recording = data as Partial<SessionRecording> | null;
+  if (!recording || recording.format !== RECORDING_FORMAT) {
+    throw new RecordingError('Not a recording: unknown file format');
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new RecordingError(`Unsupported recording version ${recording.version}`);
+  }
+  if (!Array.isArray(recording.events) || typeof recording.duration !== 'number') {
+    throw new RecordingError('Recording is damaged: events are missing');
+  }
+
+  const isEvent = (event: Partial<RecordedEvent>) =>
+    typeof event?.time === 'number' &&
+    (event.direction === 'in' || event.direction === 'out') &&
+    typeof event.event === 'string';
+  if (!recording.events.every(isEvent)) {
+    throw new RecordingError('Recording is damaged: malformed event');
+  }
+
+  return recording as SessionRecording;
+};
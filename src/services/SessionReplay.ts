@@ -0,0 +1,169 @@
+// file: src/services/SessionReplay.ts
+import { RecordedEvent, SessionRecording } from './SessionRecorder';
+
+// Where replayed events go
+export interface ReplayTarget {
+  // Handle a received event as if it had just arrived from the server
+  dispatch(event: string, payload: unknown): void;
+  // Forget everything dispatched so far; seeking backwards replays from the start
+  reset(): void;
+}
+
+export interface ReplayState {
+  // Position in the recording (ms)
+  time: number;
+  duration: number;
+  playing: boolean;
+  speed: number;
+}
+
+export type ReplayListener = (state: ReplayState) => void;
+
+// Playback speeds setSpeed() accepts; time only runs forwards, and at a speed of 0 it wouldn't run at all
+export const MIN_REPLAY_SPEED = 0.1;
+export const MAX_REPLAY_SPEED = 16;
+
+/**
+ * Plays the received events of a recording back in their original timing, with play, pause and seek.
+ * Sent events are only in the recording for reading; replaying them would mean talking to a server.
+ */
+export class SessionReplay {
+  private events: RecordedEvent[];
+  private target: ReplayTarget;
+  private duration: number;
+  // Index of the next event to dispatch
+  private nextIndex: number = 0;
+  private time: number = 0;
+  private playing: boolean = false;
+  private speed: number = 1;
+  // Wall clock time play started or was last re-anchored (seek, speed change)
+  private anchoredAt: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<ReplayListener> = new Set();
+
+  constructor(recording: SessionRecording, target: ReplayTarget) {
+    this.events = recording.events
+      .filter(event => event.direction === 'in')
+      .sort((a, b) => a.time - b.time);
+    this.target = target;
+    this.duration = Math.max(recording.duration, this.events[this.events.length - 1]?.time ?? 0);
+  }
+
+  public play(): void {
+    if (this.playing) return;
+    if (this.getTime() >= this.duration) {
+      this.seek(0);
+    }
+
+    this.playing = true;
+    this.anchoredAt = Date.now();
+    this.schedule();
+    this.notify();
+  }
+
+  public pause(): void {
+    if (!this.playing) return;
+
+    this.time = this.getTime();
+    this.playing = false;
+    this.clearTimer();
+    this.notify();
+  }
+
+  /**
+   * Jump to a position in the recording (ms). Going backwards replays everything up to it from the start.
+   */
+  public seek(time: number): void {
+    const target = Math.max(0, Math.min(time, this.duration));
+
+    if (target < this.getTime()) {
+      this.target.reset();
+      this.nextIndex = 0;
+    }
+
+    this.time = target;
+    this.anchoredAt = Date.now();
+    this.dispatchUntil(target);
+
+    if (this.playing) this.schedule();
+    this.notify();
+  }
+
+  /**
+   * Play faster or slower than real time. Speeds are clamped to MIN_REPLAY_SPEED..MAX_REPLAY_SPEED.
+   */
+  public setSpeed(speed: number): void {
+    if (Number.isNaN(speed)) return;
+
+    this.time = this.getTime();
+    this.anchoredAt = Date.now();
+    this.speed = Math.max(MIN_REPLAY_SPEED, Math.min(speed, MAX_REPLAY_SPEED));
+
+    if (this.playing) this.schedule();
+    this.notify();
+  }
+
+  /**
+   * Stop playing for good and drop all listeners
+   */
+  public stop(): void {
+    this.pause();
+    this.listeners.clear();
+  }
+
+  public getState(): ReplayState {
+    return { time: this.getTime(), duration: this.duration, playing: this.playing, speed: this.speed };
+  }
+
+  /**
+   * Get notified when playback starts, stops, seeks or changes speed. Returns an unsubscribe function.
+   */
+  public subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private getTime(): number {
+    if (!this.playing) return this.time;
+    return Math.min(this.duration, this.time + (Date.now() - this.anchoredAt) * this.speed);
+  }
+
+  /**
+   * Dispatch everything that is due and wait for the next event, or the end of the recording
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    const now = this.getTime();
+    this.dispatchUntil(now);
+
+    if (now >= this.duration) {
+      this.time = this.duration;
+      this.playing = false;
+      this.notify();
+      return;
+    }
+
+    const next = this.events[this.nextIndex]?.time ?? this.duration;
+    this.timer = setTimeout(() => this.schedule(), (next - now) / this.speed);
+  }
+
+  private dispatchUntil(time: number): void {
+    while (this.nextIndex < this.events.length && this.events[this.nextIndex].time <= time) {
+      const { event, payload } = this.events[this.nextIndex++];
+      this.target.dispatch(event, payload);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
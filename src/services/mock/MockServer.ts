@@ -0,0 +1,476 @@
+// file: src/services/mock/MockServer.ts
+import { Direction, Position, WorldConfig } from '../../utils/game';
+import {
+  ChunkCoordinates,
+  JoinRequest,
+  PROTOCOL_VERSION,
+  PlayerState,
+  WorldInfo,
+  ClientEventName,
+  ClientPayload,
+  ServerEventName,
+  ServerPayload,
+  isClientEventName,
+  validateClientMessage
+} from '../../utils/protocol';
+import { generateChunk } from '../../utils/worldGenerator';
+import { InMemoryConnection, registerInMemoryEndpoint, unregisterInMemoryEndpoint } from '../transports';
+
+// URL that connects MultiplayerClient to the local mock server
+export const MOCK_SERVER_URL = 'memory://mock';
+
+export interface MockServerOptions {
+  // Bots spawned when the server starts
+  botCount: number;
+  // Upper bound on bots while they randomly join and leave
+  maxBots: number;
+  // Simulation step and movement broadcast interval (ms)
+  tickInterval: number;
+  // How far bots wander from where they spawned (px)
+  wanderRadius: number;
+  // Bots spawn within this distance of the world centre, where human players start (px)
+  spawnRadius: number;
+  // Range of time between two chat messages from the same bot (ms)
+  chatInterval: [number, number];
+  // Time between random bot joins/leaves (ms), 0 disables
+  joinLeaveInterval: number;
+  // Time between heartbeats sent to joined clients (ms)
+  heartbeatInterval: number;
+  world: WorldConfig;
+}
+
+export const DEFAULT_MOCK_SERVER_OPTIONS: MockServerOptions = {
+  botCount: 4,
+  maxBots: 8,
+  tickInterval: 100,
+  wanderRadius: 400,
+  spawnRadius: 300,
+  chatInterval: [15000, 45000],
+  joinLeaveInterval: 20000,
+  heartbeatInterval: 5000,
+  world: {
+    worldWidth: 5000,
+    worldHeight: 5000,
+    chunkSize: 500,
+    renderDistance: 2,
+    characterSize: 64,
+    movementSpeed: 2.5,
+    timeScale: 0.1,
+    seed: 0
+  }
+};
+
+const BOT_NAMES = ['Fern', 'Moss', 'Birch', 'Rowan', 'Hazel', 'Aspen', 'Willow', 'Cedar', 'Juniper', 'Alder', 'Maple', 'Sorrel'];
+
+const BOT_PHRASES = [
+  'Anyone seen the big oak?',
+  'This forest goes on forever',
+  'Heading north, who is coming?',
+  'Nice flowers over here',
+  'brb',
+  'Hello everyone!',
+  'I think I am lost',
+  'Watch out for the bushes'
+];
+
+interface MockBot {
+  player: PlayerState;
+  home: Position;
+  target: Position | null;
+  // Time the bot starts walking again after reaching a target
+  restUntil: number;
+  nextChatAt: number;
+}
+
+interface MockSession {
+  connection: InMemoryConnection;
+  player: PlayerState | null;
+}
+
+/**
+ * A fake game server that runs inside the client.
+ * Speaks the real protocol over an in-memory connection and populates the world with bots
+ * that wander, chat, join and leave, so the UI can be worked on without a backend.
+ */
+export class MockServer {
+  private options: MockServerOptions;
+  private bots: Map<string, MockBot> = new Map();
+  private sessions: Map<string, MockSession> = new Map();
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private joinLeaveTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private nextBotId: number = 1;
+  private nextPlayerId: number = 1;
+
+  // Handlers for each client event, called with an already validated payload
+  private clientMessageHandlers: {
+    [E in ClientEventName]: (session: MockSession, payload: ClientPayload<E>) => void
+  } = {
+    'player:join': (session, data) => this.handleJoin(session, data),
+    'player:move': (session, { sequence, ...move }) => {
+      if (!session.player) return;
+      session.player = { ...session.player, ...move, lastUpdate: Date.now() };
+      this.send(session, 'move:ack', { sequence, position: session.player.position, corrected: false });
+      this.broadcastMove(session.player, session.connection.id);
+    },
+    'chat:message': (session, message) => {
+      if (!session.player) return;
+      this.broadcastChat(session.player, message.trim());
+    },
+    'player:leave': (session) => this.removePlayer(session),
+    'time:ping': (session, data) => this.send(session, 'time:pong', { clientTime: data.clientTime, serverTime: Date.now() }),
+    // Nothing times out in-process
+    'heartbeat': () => {},
+    // Chunks never change here, so every chunk is at version 0
+    'world:request-chunks': (session, data) => this.send(session, 'world:chunks', { chunks: this.getChunks(data.chunks) }),
+    // Chunks are always sent in full, but answer like the real server anyway
+    'world:resync': (session, data) => this.send(session, 'world:chunks', { chunks: this.getChunks(data.chunks) }),
+    // A single world, whatever worldId clients ask for
+    'worlds:list': (session) => this.send(session, 'worlds:list', { worlds: [this.getWorldInfo()] }),
+    'server:status': (session) => this.send(session, 'server:status', {
+      name: 'Offline mock server',
+      motd: 'Simulated players only',
+      version: 'mock',
+      playerCount: this.getPlayers().length,
+      maxPlayers: this.options.maxBots + this.sessions.size
+    }),
+    // Offline play is guest only
+    'account:register': (session) => this.send(session, 'error', { message: 'Accounts are not available offline' }),
+    'account:login': (session) => this.send(session, 'error', { message: 'Accounts are not available offline' }),
+    'account:resume': (session) => this.send(session, 'error', { message: 'Accounts are not available offline' }),
+    'account:logout': (session) => this.send(session, 'account:logout', {})
+  };
+
+  constructor(options: Partial<MockServerOptions> = {}) {
+    this.options = { ...DEFAULT_MOCK_SERVER_OPTIONS, ...options };
+  }
+
+  /**
+   * Spawn the initial bots and start the simulation
+   */
+  public start(): void {
+    if (this.tickTimer) return;
+
+    for (let i = 0; i < this.options.botCount; i++) {
+      this.spawnBot();
+    }
+
+    this.tickTimer = setInterval(() => this.tick(), this.options.tickInterval);
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), this.options.heartbeatInterval);
+
+    if (this.options.joinLeaveInterval > 0) {
+      this.joinLeaveTimer = setInterval(() => this.churnBots(), this.options.joinLeaveInterval);
+    }
+  }
+
+  /**
+   * Stop the simulation and close all connections
+   */
+  public stop(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    if (this.joinLeaveTimer) clearInterval(this.joinLeaveTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.tickTimer = null;
+    this.joinLeaveTimer = null;
+    this.heartbeatTimer = null;
+
+    this.sessions.forEach(session => session.connection.close());
+    this.sessions.clear();
+    this.bots.clear();
+  }
+
+  /**
+   * Accept a client connection from an InMemoryTransport
+   */
+  public accept(connection: InMemoryConnection): void {
+    const session: MockSession = { connection, player: null };
+    this.sessions.set(connection.id, session);
+
+    connection.onMessage((event, payload) => this.handleMessage(session, event, payload));
+    // Sessions aren't kept for resuming: a dropped client simply rejoins as a new player
+    connection.onClose(() => {
+      this.removePlayer(session);
+      this.sessions.delete(connection.id);
+    });
+  }
+
+  private handleMessage(session: MockSession, event: string, payload: unknown): void {
+    if (!isClientEventName(event)) return;
+
+    const eventName = event as ClientEventName;
+    const validationError = validateClientMessage(eventName, payload);
+    if (validationError) {
+      this.send(session, 'error', { message: `Invalid "${eventName}" message: ${validationError}` });
+      return;
+    }
+
+    (this.clientMessageHandlers[eventName] as (session: MockSession, payload: unknown) => void)(session, payload);
+  }
+
+  private handleJoin(session: MockSession, data: JoinRequest): void {
+    if (session.player) {
+      this.send(session, 'join:rejected', {
+        requestId: data.requestId,
+        reason: 'already-joined',
+        message: 'Already joined a world',
+        protocolVersion: PROTOCOL_VERSION
+      });
+      return;
+    }
+
+    const username = data.username.trim();
+    const player: PlayerState = {
+      id: `mock-player-${this.nextPlayerId++}`,
+      username,
+      position: { x: this.options.world.worldWidth / 2, y: this.options.world.worldHeight / 2 },
+      direction: 'down',
+      isMoving: false,
+      lastUpdate: Date.now()
+    };
+    session.player = player;
+
+    this.send(session, 'session:started', {
+      requestId: data.requestId,
+      playerId: player.id,
+      username,
+      resumeToken: `mock-token-${player.id}`,
+      resumed: false,
+      world: this.getWorldInfo(),
+      spawn: { position: player.position, direction: player.direction },
+      // Resume tokens are fake and there is no chat backlog, so nothing optional is supported
+      capabilities: []
+    });
+    this.broadcast('player:joined', { player });
+    this.send(session, 'world:players', { players: this.getPlayers().filter(p => p.id !== player.id) });
+  }
+
+  private getWorldInfo(): WorldInfo {
+    return {
+      id: 'default',
+      name: 'Offline forest',
+      description: 'Simulated players only',
+      playerCount: this.getPlayers().length,
+      maxPlayers: this.options.maxBots + this.sessions.size,
+      config: this.options.world
+    };
+  }
+
+  private removePlayer(session: MockSession): void {
+    if (!session.player) return;
+
+    const playerId = session.player.id;
+    session.player = null;
+    this.broadcast('player:left', { playerId });
+  }
+
+  /**
+   * Advance every bot by one simulation step
+   */
+  private tick(): void {
+    const now = Date.now();
+
+    this.bots.forEach(bot => {
+      this.stepBot(bot, now);
+
+      if (now >= bot.nextChatAt) {
+        bot.nextChatAt = now + this.randomBetween(...this.options.chatInterval);
+        this.broadcastChat(bot.player, BOT_PHRASES[Math.floor(Math.random() * BOT_PHRASES.length)]);
+      }
+    });
+  }
+
+  private stepBot(bot: MockBot, now: number): void {
+    if (!bot.target) {
+      if (now < bot.restUntil) return;
+      bot.target = this.pickWanderTarget(bot.home);
+    }
+
+    const { position } = bot.player;
+    const dx = bot.target.x - position.x;
+    const dy = bot.target.y - position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    // Same speed as a local player: movementSpeed px per 60fps frame
+    const step = (this.options.world.movementSpeed * this.options.tickInterval) / 16.67;
+
+    if (distance <= step) {
+      bot.player = { ...bot.player, position: bot.target, isMoving: false, lastUpdate: now };
+      bot.target = null;
+      bot.restUntil = now + this.randomBetween(1000, 5000);
+    } else {
+      const direction: Direction = Math.abs(dx) > Math.abs(dy)
+        ? (dx > 0 ? 'right' : 'left')
+        : (dy > 0 ? 'down' : 'up');
+
+      bot.player = {
+        ...bot.player,
+        position: { x: position.x + (dx / distance) * step, y: position.y + (dy / distance) * step },
+        direction,
+        isMoving: true,
+        lastUpdate: now
+      };
+    }
+
+    this.broadcastMove(bot.player);
+  }
+
+  /**
+   * Randomly add or remove a bot
+   */
+  private churnBots(): void {
+    const shouldJoin = this.bots.size === 0 || (this.bots.size < this.options.maxBots && Math.random() < 0.5);
+
+    if (shouldJoin) {
+      const bot = this.spawnBot();
+      this.broadcast('player:joined', { player: bot.player });
+      return;
+    }
+
+    const botIds = Array.from(this.bots.keys());
+    const leavingId = botIds[Math.floor(Math.random() * botIds.length)];
+    this.bots.delete(leavingId);
+    this.broadcast('player:left', { playerId: leavingId });
+  }
+
+  private spawnBot(): MockBot {
+    const { worldWidth, worldHeight, characterSize } = this.options.world;
+    const angle = Math.random() * Math.PI * 2;
+    const radius = Math.random() * this.options.spawnRadius;
+    const home = this.clampToWorld({
+      x: worldWidth / 2 + Math.cos(angle) * radius,
+      y: worldHeight / 2 + Math.sin(angle) * radius
+    }, characterSize);
+
+    const botNumber = this.nextBotId++;
+    const id = `mock-bot-${botNumber}`;
+    const name = BOT_NAMES[(botNumber - 1) % BOT_NAMES.length];
+    const now = Date.now();
+
+    const bot: MockBot = {
+      player: {
+        id,
+        username: `${name}Bot`,
+        position: home,
+        direction: 'down',
+        isMoving: false,
+        lastUpdate: now
+      },
+      home,
+      target: null,
+      restUntil: now + this.randomBetween(0, 3000),
+      nextChatAt: now + this.randomBetween(...this.options.chatInterval)
+    };
+
+    this.bots.set(id, bot);
+    return bot;
+  }
+
+  private pickWanderTarget(home: Position): Position {
+    const angle = Math.random() * Math.PI * 2;
+    const radius = Math.random() * this.options.wanderRadius;
+    return this.clampToWorld({
+      x: home.x + Math.cos(angle) * radius,
+      y: home.y + Math.sin(angle) * radius
+    }, this.options.world.characterSize);
+  }
+
+  private getPlayers(): PlayerState[] {
+    const humans = Array.from(this.sessions.values())
+      .map(session => session.player)
+      .filter((player): player is PlayerState => player !== null);
+
+    return [...humans, ...Array.from(this.bots.values()).map(bot => bot.player)];
+  }
+
+  private getChunks(coordinates: ChunkCoordinates[]) {
+    const { chunkSize, worldWidth, worldHeight, seed } = this.options.world;
+
+    return coordinates
+      .filter(({ x, y }) => x >= 0 && y >= 0 && x * chunkSize < worldWidth && y * chunkSize < worldHeight)
+      .map(({ x, y }) => generateChunk(x, y, chunkSize, seed));
+  }
+
+  /**
+   * Tell every joined client that all players are still there, resting bots included
+   */
+  private sendHeartbeats(): void {
+    const playerIds = this.getPlayers().map(player => player.id);
+
+    this.sessions.forEach(session => {
+      if (!session.player) return;
+      const ownId = session.player.id;
+      this.send(session, 'heartbeat', { timestamp: Date.now(), players: playerIds.filter(id => id !== ownId) });
+    });
+  }
+
+  private broadcastMove(player: PlayerState, exceptConnectionId?: string): void {
+    this.broadcast('player:move', {
+      timestamp: player.lastUpdate,
+      data: {
+        playerId: player.id,
+        position: player.position,
+        direction: player.direction,
+        isMoving: player.isMoving
+      }
+    }, exceptConnectionId);
+  }
+
+  private broadcastChat(player: PlayerState, message: string): void {
+    if (!message) return;
+
+    this.broadcast('chat:message', {
+      timestamp: Date.now(),
+      data: { playerId: player.id, username: player.username, message }
+    });
+  }
+
+  private broadcast<E extends ServerEventName>(event: E, payload: ServerPayload<E>, exceptConnectionId?: string): void {
+    this.sessions.forEach(session => {
+      if (!session.player || session.connection.id === exceptConnectionId) return;
+      this.send(session, event, payload);
+    });
+  }
+
+  private send<E extends ServerEventName>(session: MockSession, event: E, payload: ServerPayload<E>): void {
+    session.connection.send(event, payload);
+  }
+
+  private clampToWorld(position: Position, characterSize: number): Position {
+    return {
+      x: Math.max(0, Math.min(position.x, this.options.world.worldWidth - characterSize)),
+      y: Math.max(0, Math.min(position.y, this.options.world.worldHeight - characterSize))
+    };
+  }
+
+  private randomBetween(min: number, max: number): number {
+    return min + Math.random() * (max - min);
+  }
+}
+
+let activeMockServer: MockServer | null = null;
+
+/**
+ * Start a mock server reachable at MOCK_SERVER_URL, replacing any running one
+ */
+export const startMockServer = (options: Partial<MockServerOptions> = {}): MockServer => {
+  stopMockServer();
+
+  const server = new MockServer(options);
+  server.start();
+  registerInMemoryEndpoint('mock', (connection) => server.accept(connection));
+  activeMockServer = server;
+
+  console.log('[MockServer] Started offline mock server');
+  return server;
+};
+
+/**
+ * Stop the running mock server, if any
+ */
+export const stopMockServer = (): void => {
+  if (!activeMockServer) return;
+
+  activeMockServer.stop();
+  unregisterInMemoryEndpoint('mock');
+  activeMockServer = null;
+};
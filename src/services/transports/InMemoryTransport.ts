@@ -0,0 +1,119 @@
+// file: src/services/transports/InMemoryTransport.ts
+import { ClientEventName, ClientPayload } from '../../utils/protocol';
+import { Transport, TransportHandlers } from './Transport';
+
+type MessageListener = (event: string, payload: unknown) => void;
+type CloseListener = (reason: string) => void;
+
+/**
+ * The server end of an in-memory connection.
+ * Has the same shape as the game server's ClientConnection, so it can be handed to either.
+ */
+export interface InMemoryConnection {
+  readonly id: string;
+  send(event: string, payload: unknown): void;
+  sendBinary(event: string, data: Uint8Array): void;
+  onMessage(handler: MessageListener): void;
+  onClose(handler: CloseListener): void;
+  close(): void;
+}
+
+// Something that accepts in-memory connections, e.g. a mock server
+export type InMemoryEndpoint = (connection: InMemoryConnection) => void;
+
+let nextConnectionId = 1;
+
+/**
+ * Transport that connects directly to an endpoint in the same process, used for memory:// URLs.
+ * Payloads are cloned and delivered asynchronously to behave like a real network.
+ */
+export class InMemoryTransport implements Transport {
+  public readonly name = 'in-memory';
+  private endpoint: InMemoryEndpoint;
+  private latency: number;
+  private open: boolean = false;
+  private deliverToServer: MessageListener | null = null;
+  private closeServerSide: ((reason: string) => void) | null = null;
+  
+  constructor(endpoint: InMemoryEndpoint, latency: number = 0) {
+    this.endpoint = endpoint;
+    this.latency = latency;
+  }
+  
+  public connect(_url: string, handlers: TransportHandlers): void {
+    const messageListeners: MessageListener[] = [];
+    const closeListeners: CloseListener[] = [];
+    let connectionOpen = true;
+    
+    const shutdown = (reason: string, notifyClient: boolean) => {
+      if (!connectionOpen) return;
+      connectionOpen = false;
+      this.open = false;
+      this.deliverToServer = null;
+      this.closeServerSide = null;
+      
+      closeListeners.forEach(listener => listener(reason));
+      if (notifyClient) {
+        this.defer(() => handlers.onClose(reason));
+      }
+    };
+    
+    const connection: InMemoryConnection = {
+      id: `memory-${nextConnectionId++}`,
+      send: (event, payload) => {
+        if (!connectionOpen) return;
+        const copy = structuredClone(payload);
+        this.defer(() => {
+          if (connectionOpen) handlers.onMessage(event, copy);
+        });
+      },
+      // Binary payloads need no special treatment, structuredClone copies them too
+      sendBinary: (event, data) => connection.send(event, data),
+      onMessage: (handler) => {
+        messageListeners.push(handler);
+      },
+      onClose: (handler) => {
+        closeListeners.push(handler);
+      },
+      // Messages sent before closing still arrive, as they would over a real connection
+      close: () => this.defer(() => shutdown('server closed connection', true))
+    };
+    
+    this.deliverToServer = (event, payload) => {
+      const copy = structuredClone(payload);
+      this.defer(() => {
+        if (connectionOpen) messageListeners.forEach(listener => listener(event, copy));
+      });
+    };
+    this.closeServerSide = (reason) => shutdown(reason, false);
+    
+    this.defer(() => {
+      if (!connectionOpen) return;
+      this.open = true;
+      this.endpoint(connection);
+      handlers.onOpen();
+    });
+  }
+  
+  public send<E extends ClientEventName>(event: E, payload: ClientPayload<E>): void {
+    if (!this.open || !this.deliverToServer) return;
+    this.deliverToServer(event, payload);
+  }
+  
+  public sendBinary(event: ClientEventName, data: Uint8Array): void {
+    if (!this.open || !this.deliverToServer) return;
+    this.deliverToServer(event, data);
+  }
+  
+  public close(): void {
+    this.closeServerSide?.('client closed connection');
+  }
+  
+  public isOpen(): boolean {
+    return this.open;
+  }
+  
+  private defer(callback: () => void): void {
+    setTimeout(callback, this.latency);
+  }
+}
@@ -0,0 +1,45 @@
+// file: src/services/transports/SocketIoTransport.ts
+import { io, Socket } from 'socket.io-client';
+import { ClientEventName, ClientPayload } from '../../utils/protocol';
+import { Transport, TransportHandlers } from './Transport';
+
+/**
+ * Transport over socket.io, used for http:// and https:// server URLs
+ */
+export class SocketIoTransport implements Transport {
+  public readonly name = 'socket.io';
+  private socket: Socket | null = null;
+  
+  public connect(url: string, handlers: TransportHandlers): void {
+    // Reconnection is handled by MultiplayerClient so every transport behaves the same
+    this.socket = io(url, { reconnection: false, forceNew: true });
+    
+    this.socket.on('connect', () => handlers.onOpen());
+    this.socket.on('disconnect', (reason) => handlers.onClose(reason));
+    this.socket.on('connect_error', (error) => handlers.onError(error));
+    this.socket.onAny((event: string, payload: unknown) => handlers.onMessage(event, payload));
+  }
+  
+  public send<E extends ClientEventName>(event: E, payload: ClientPayload<E>): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit(event, payload);
+  }
+  
+  public sendBinary(event: ClientEventName, data: Uint8Array): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit(event, data);
+  }
+  
+  public close(): void {
+    if (!this.socket) return;
+    
+    this.socket.removeAllListeners();
+    this.socket.offAny();
+    this.socket.disconnect();
+    this.socket = null;
+  }
+  
+  public isOpen(): boolean {
+    return Boolean(this.socket?.connected);
+  }
+}
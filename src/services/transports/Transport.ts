@@ -0,0 +1,41 @@
+// file: src/services/transports/Transport.ts
+import { ClientEventName, ClientPayload } from '../../utils/protocol';
+
+// Callbacks a transport uses to report back to MultiplayerClient
+export interface TransportHandlers {
+  onOpen: () => void;
+  onClose: (reason: string) => void;
+  // payload is binary (ArrayBuffer or a typed array) for events sent with the binary codec
+  onMessage: (event: string, payload: unknown) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * A bidirectional message channel to the game server.
+ * MultiplayerClient only talks to this interface, so the wire technology can be swapped freely.
+ */
+export interface Transport {
+  readonly name: string;
+  
+  /**
+   * Open the connection. Handlers are called for the lifetime of the connection.
+   */
+  connect(url: string, handlers: TransportHandlers): void;
+  
+  /**
+   * Send an event to the server. Silently dropped if the connection isn't open.
+   */
+  send<E extends ClientEventName>(event: E, payload: ClientPayload<E>): void;
+  
+  /**
+   * Send an event whose payload was encoded with the binary codec
+   */
+  sendBinary(event: ClientEventName, data: Uint8Array): void;
+  
+  /**
+   * Close the connection. onClose is not called for a close requested by the client.
+   */
+  close(): void;
+  
+  isOpen(): boolean;
+}
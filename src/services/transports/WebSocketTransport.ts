@@ -0,0 +1,82 @@
+// file: src/services/transports/WebSocketTransport.ts
+import { ClientEventName, ClientPayload, WireFrame } from '../../utils/protocol';
+import { packBinaryFrame, unpackBinaryFrame } from '../../utils/binaryCodec';
+import { Transport, TransportHandlers } from './Transport';
+
+/**
+ * Transport over a native WebSocket, used for ws:// and wss:// server URLs.
+ * Messages are sent as JSON-encoded WireFrames, binary codec messages as binary frames.
+ */
+export class WebSocketTransport implements Transport {
+  public readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+  
+  public connect(url: string, handlers: TransportHandlers): void {
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    
+    socket.onopen = () => handlers.onOpen();
+    
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      handlers.onClose(event.reason || `code ${event.code}`);
+    };
+    
+    socket.onerror = () => {
+      handlers.onError(new Error(`WebSocket error on ${url}`));
+    };
+    
+    socket.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        try {
+          const { event: name, data } = unpackBinaryFrame(new Uint8Array(event.data));
+          handlers.onMessage(name, data);
+        } catch (error) {
+          handlers.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+        return;
+      }
+      
+      let frame: WireFrame;
+      try {
+        frame = JSON.parse(event.data);
+      } catch {
+        handlers.onError(new Error('Received a message that is not valid JSON'));
+        return;
+      }
+      
+      if (typeof frame?.event !== 'string') {
+        handlers.onError(new Error('Received a message without an event name'));
+        return;
+      }
+      
+      handlers.onMessage(frame.event, frame.payload);
+    };
+  }
+  
+  public send<E extends ClientEventName>(event: E, payload: ClientPayload<E>): void {
+    if (!this.isOpen()) return;
+    
+    const frame: WireFrame = { event, payload };
+    this.socket!.send(JSON.stringify(frame));
+  }
+  
+  public sendBinary(event: ClientEventName, data: Uint8Array): void {
+    if (!this.isOpen()) return;
+    this.socket!.send(packBinaryFrame(event, data));
+  }
+  
+  public close(): void {
+    if (!this.socket) return;
+    
+    const socket = this.socket;
+    this.socket = null;
+    socket.close();
+  }
+  
+  public isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+}
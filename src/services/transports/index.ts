@@ -0,0 +1,47 @@
+// file: src/services/transports/index.ts
+import { Transport } from './Transport';
+import { SocketIoTransport } from './SocketIoTransport';
+import { WebSocketTransport } from './WebSocketTransport';
+import { InMemoryTransport, InMemoryEndpoint } from './InMemoryTransport';
+
+export type { Transport, TransportHandlers } from './Transport';
+export type { InMemoryConnection, InMemoryEndpoint } from './InMemoryTransport';
+export { SocketIoTransport, WebSocketTransport, InMemoryTransport };
+
+// Endpoints reachable through memory://<name> URLs
+const inMemoryEndpoints: Map<string, InMemoryEndpoint> = new Map();
+
+/**
+ * Make an in-process endpoint reachable at memory://<name>
+ */
+export const registerInMemoryEndpoint = (name: string, endpoint: InMemoryEndpoint): void => {
+  inMemoryEndpoints.set(name, endpoint);
+};
+
+export const unregisterInMemoryEndpoint = (name: string): void => {
+  inMemoryEndpoints.delete(name);
+};
+
+/**
+ * Pick a transport from the server URL scheme:
+ * ws:// and wss:// use a native WebSocket, memory:// an in-process endpoint, anything else socket.io
+ */
+export const createTransport = (url: string): Transport => {
+  const scheme = url.slice(0, url.indexOf(':')).toLowerCase();
+  
+  switch (scheme) {
+    case 'ws':
+    case 'wss':
+      return new WebSocketTransport();
+    case 'memory': {
+      const name = url.slice('memory://'.length).replace(/\/.*$/, '');
+      const endpoint = inMemoryEndpoints.get(name);
+      if (!endpoint) {
+        throw new Error(`No in-memory server registered as "${name}"`);
+      }
+      return new InMemoryTransport(endpoint);
+    }
+    default:
+      return new SocketIoTransport();
+  }
+};
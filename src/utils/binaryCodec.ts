@@ -0,0 +1,494 @@
+// file: src/utils/binaryCodec.ts
+// Compact binary encoding for the high-frequency messages (movement, acks and chunks), used once both sides
+// agreed on the binary-codec capability at join. Everything else, and every message without the capability,
+// stays JSON. Decoded payloads are plain protocol objects and go through the usual schema validation.
+import { Position, Direction, Tree, Bush, Flower, WorldChunk } from './game';
+import {
+  ClientEventName,
+  ClientPayload,
+  MoveAckMessage,
+  MoveRequest,
+  PlayerMoveMessage,
+  ServerEventName,
+  ServerPayload,
+  WorldChunksMessage
+} from './protocol';
+
+// Positions are quantised to 1/16 px
+const POSITION_SCALE = 16;
+
+const DIRECTIONS: readonly Direction[] = ['up', 'down', 'left', 'right'];
+
+// Move flags: bits 0-1 direction, then the booleans
+const FLAG_MOVING = 1 << 2;
+const FLAG_DELTA = 1 << 3;
+const FLAG_CORRECTED = 1 << 2;
+
+// Chunk flags
+const CHUNK_LOADED = 1 << 0;
+const CHUNK_INTEGER_FIELDS = 1 << 1;
+
+// Color encodings, chosen per color so the decoded string is always identical to the original
+const COLOR_HEX = 0;
+const COLOR_HSL = 1;
+const COLOR_STRING = 2;
+
+// Acknowledged positions the server remembers as delta bases
+const ACK_HISTORY_SIZE = 64;
+
+const INT16_MAX = 0x7fff;
+
+export class CodecError extends Error {}
+
+export type BinaryData = ArrayBuffer | ArrayBufferView;
+
+/**
+ * Whether a received payload is binary (socket.io hands over ArrayBuffers in the browser, Buffers in Node)
+ */
+export const isBinaryPayload = (payload: unknown): payload is BinaryData =>
+  payload instanceof ArrayBuffer || ArrayBuffer.isView(payload);
+
+export const toBytes = (data: BinaryData): Uint8Array =>
+  data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+/**
+ * Frame for transports without event support (raw WebSocket): event name length, event name, payload
+ */
+export const packBinaryFrame = (event: string, data: Uint8Array): Uint8Array => {
+  const name = textEncoder.encode(event);
+  const frame = new Uint8Array(1 + name.length + data.length);
+  frame[0] = name.length;
+  frame.set(name, 1);
+  frame.set(data, 1 + name.length);
+  return frame;
+};
+
+export const unpackBinaryFrame = (frame: Uint8Array): { event: string; data: Uint8Array } => {
+  const nameLength = frame[0];
+  if (frame.length < 1 + nameLength) throw new CodecError('Truncated binary frame');
+
+  return {
+    event: textDecoder.decode(frame.subarray(1, 1 + nameLength)),
+    data: frame.subarray(1 + nameLength)
+  };
+};
+
+/**
+ * Client end of the codec. Move requests are sent as deltas against the last acknowledged position,
+ * which it learns from the move acks it decodes.
+ */
+export class ClientCodec {
+  private lastAck: { sequence: number; position: Position } | null = null;
+
+  /**
+   * Encode an outgoing event, or return null if it has no binary form
+   */
+  public encode<E extends ClientEventName>(event: E, payload: ClientPayload<E>): Uint8Array | null {
+    if (event !== 'player:move') return null;
+
+    const move = payload as MoveRequest;
+    const writer = new ByteWriter();
+    writer.uint32(move.sequence);
+
+    const x = quantise(move.position.x);
+    const y = quantise(move.position.y);
+    const base = this.lastAck && {
+      sequence: this.lastAck.sequence,
+      x: quantise(this.lastAck.position.x),
+      y: quantise(this.lastAck.position.y)
+    };
+
+    if (base && Math.abs(x - base.x) <= INT16_MAX && Math.abs(y - base.y) <= INT16_MAX) {
+      writer.uint8(packMoveFlags(move.direction, move.isMoving) | FLAG_DELTA);
+      writer.uint32(base.sequence);
+      writer.int16(x - base.x);
+      writer.int16(y - base.y);
+    } else {
+      writer.uint8(packMoveFlags(move.direction, move.isMoving));
+      writer.int32(x);
+      writer.int32(y);
+    }
+
+    return writer.finish();
+  }
+
+  /**
+   * Decode an incoming binary event. Throws a CodecError for events without a binary form or malformed data.
+   */
+  public decode(event: string, data: Uint8Array): unknown {
+    const reader = new ByteReader(data);
+
+    switch (event) {
+      case 'player:move': {
+        const timestamp = reader.float64();
+        const playerId = reader.string();
+        const flags = reader.uint8();
+        const message: PlayerMoveMessage = {
+          timestamp,
+          data: { playerId, position: readPosition(reader), ...unpackMoveFlags(flags) }
+        };
+        return reader.done(message);
+      }
+
+      case 'move:ack': {
+        const sequence = reader.uint32();
+        const flags = reader.uint8();
+        const message: MoveAckMessage = {
+          sequence,
+          position: readPosition(reader),
+          corrected: (flags & FLAG_CORRECTED) !== 0
+        };
+        this.lastAck = { sequence, position: message.position };
+        return reader.done(message);
+      }
+
+      case 'world:chunks':
+        return reader.done(readChunks(reader));
+
+      default:
+        throw new CodecError(`No binary encoding for "${event}"`);
+    }
+  }
+}
+
+/**
+ * Server end of the codec, one per connection. Remembers the positions it acknowledged
+ * so it can resolve the client's delta-encoded moves.
+ */
+export class ServerCodec {
+  private ackedPositions: Map<number, Position> = new Map();
+
+  /**
+   * Encode an outgoing event, or return null if it has no binary form
+   */
+  public encode<E extends ServerEventName>(event: E, payload: ServerPayload<E>): Uint8Array | null {
+    const writer = new ByteWriter();
+
+    switch (event) {
+      case 'player:move': {
+        const { timestamp, data } = payload as PlayerMoveMessage;
+        writer.float64(timestamp);
+        writer.string(data.playerId);
+        writer.uint8(packMoveFlags(data.direction, data.isMoving));
+        writePosition(writer, data.position);
+        break;
+      }
+
+      case 'move:ack': {
+        const ack = payload as MoveAckMessage;
+        writer.uint32(ack.sequence);
+        writer.uint8(ack.corrected ? FLAG_CORRECTED : 0);
+        writePosition(writer, ack.position);
+        this.rememberAck(ack.sequence, ack.position);
+        break;
+      }
+
+      case 'world:chunks':
+        writeChunks(writer, payload as WorldChunksMessage);
+        break;
+
+      default:
+        return null;
+    }
+
+    return writer.finish();
+  }
+
+  /**
+   * Decode an incoming binary event. Throws a CodecError for events without a binary form or malformed data.
+   */
+  public decode(event: string, data: Uint8Array): unknown {
+    if (event !== 'player:move') {
+      throw new CodecError(`No binary encoding for "${event}"`);
+    }
+
+    const reader = new ByteReader(data);
+    const sequence = reader.uint32();
+    const flags = reader.uint8();
+    let position: Position;
+
+    if (flags & FLAG_DELTA) {
+      const baseSequence = reader.uint32();
+      const base = this.ackedPositions.get(baseSequence);
+      if (!base) throw new CodecError(`Move ${sequence} is relative to unknown ack ${baseSequence}`);
+
+      position = {
+        x: (quantise(base.x) + reader.int16()) / POSITION_SCALE,
+        y: (quantise(base.y) + reader.int16()) / POSITION_SCALE
+      };
+    } else {
+      position = readPosition(reader);
+    }
+
+    const move: MoveRequest = { sequence, position, ...unpackMoveFlags(flags) };
+    return reader.done(move);
+  }
+
+  private rememberAck(sequence: number, position: Position): void {
+    this.ackedPositions.set(sequence, position);
+    if (this.ackedPositions.size > ACK_HISTORY_SIZE) {
+      const oldest = this.ackedPositions.keys().next().value;
+      if (oldest !== undefined) this.ackedPositions.delete(oldest);
+    }
+  }
+}
+
+const quantise = (value: number): number => Math.round(value * POSITION_SCALE);
+
+const packMoveFlags = (direction: Direction, isMoving: boolean): number =>
+  Math.max(0, DIRECTIONS.indexOf(direction)) | (isMoving ? FLAG_MOVING : 0);
+
+const unpackMoveFlags = (flags: number): { direction: Direction; isMoving: boolean } => ({
+  direction: DIRECTIONS[flags & 0b11],
+  isMoving: (flags & FLAG_MOVING) !== 0
+});
+
+const writePosition = (writer: ByteWriter, position: Position): void => {
+  writer.int32(quantise(position.x));
+  writer.int32(quantise(position.y));
+};
+
+const readPosition = (reader: ByteReader): Position => ({
+  x: reader.int32() / POSITION_SCALE,
+  y: reader.int32() / POSITION_SCALE
+});
+
+// ---------------------------------------------------------------------------
+// Chunks. Generated elements only have integer coordinates and sizes, which are sent as int32;
+// a chunk with any other number falls back to float64 for all of them.
+
+const isInt32 = (value: number): boolean => Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff;
+
+const writeChunks = (writer: ByteWriter, { chunks }: WorldChunksMessage): void => {
+  writer.uint16(chunks.length);
+
+  chunks.forEach(chunk => {
+    const numbers = [
+      ...chunk.trees.flatMap(tree => [tree.id, tree.x, tree.y, tree.size, tree.variant]),
+      ...chunk.bushes.flatMap(bush => [bush.id, bush.x, bush.y, bush.size, bush.variant]),
+      ...chunk.flowers.flatMap(flower => [flower.id, flower.x, flower.y])
+    ];
+    const integers = numbers.every(isInt32);
+    const number = (value: number) => (integers ? writer.int32(value) : writer.float64(value));
+
+    writer.int32(chunk.x);
+    writer.int32(chunk.y);
+    writer.uint8((chunk.isLoaded ? CHUNK_LOADED : 0) | (integers ? CHUNK_INTEGER_FIELDS : 0));
+    writer.uint32(chunk.version);
+
+    // Trees and bushes have the same fields
+    [chunk.trees, chunk.bushes].forEach(elements => {
+      writer.uint16(elements.length);
+      elements.forEach(element => {
+        [element.id, element.x, element.y, element.size, element.variant].forEach(number);
+        writeColor(writer, element.color);
+      });
+    });
+
+    writer.uint16(chunk.flowers.length);
+    chunk.flowers.forEach(flower => {
+      [flower.id, flower.x, flower.y].forEach(number);
+      writeColor(writer, flower.color);
+    });
+  });
+};
+
+const readChunks = (reader: ByteReader): WorldChunksMessage => {
+  const chunks: WorldChunk[] = [];
+  const chunkCount = reader.uint16();
+
+  for (let i = 0; i < chunkCount; i++) {
+    const x = reader.int32();
+    const y = reader.int32();
+    const flags = reader.uint8();
+    const version = reader.uint32();
+    const number = () => ((flags & CHUNK_INTEGER_FIELDS) ? reader.int32() : reader.float64());
+
+    const readSizedElements = (): (Tree | Bush)[] =>
+      Array.from({ length: reader.uint16() }, () => {
+        const [id, elementX, elementY, size, variant] = [number(), number(), number(), number(), number()];
+        return { id, x: elementX, y: elementY, size, variant, color: readColor(reader) };
+      });
+
+    const trees: Tree[] = readSizedElements();
+    const bushes: Bush[] = readSizedElements();
+    const flowers: Flower[] = Array.from({ length: reader.uint16() }, () => {
+      const [id, flowerX, flowerY] = [number(), number(), number()];
+      return { id, x: flowerX, y: flowerY, color: readColor(reader) };
+    });
+
+    chunks.push({ x, y, trees, bushes, flowers, isLoaded: (flags & CHUNK_LOADED) !== 0, version });
+  }
+
+  return { chunks };
+};
+
+const HEX_COLOR = /^#([0-9a-f]{6})$/i;
+const HSL_COLOR = /^hsl\(([^,]+), ([^,]+)%, ([^,]+)%\)$/;
+
+const formatHsl = (h: number, s: number, l: number): string => `hsl(${h}, ${s}%, ${l}%)`;
+
+const writeColor = (writer: ByteWriter, color: string): void => {
+  const hex = HEX_COLOR.exec(color);
+  // Only the exact upper case form round-trips, anything else is sent as a string
+  if (hex && color === color.toUpperCase()) {
+    writer.uint8(COLOR_HEX);
+    const value = parseInt(hex[1], 16);
+    writer.uint8(value >> 16);
+    writer.uint16(value & 0xffff);
+    return;
+  }
+
+  const hsl = HSL_COLOR.exec(color);
+  if (hsl) {
+    const [h, s, l] = hsl.slice(1).map(Number);
+    if (formatHsl(h, s, l) === color) {
+      writer.uint8(COLOR_HSL);
+      writer.float64(h);
+      writer.float64(s);
+      writer.float64(l);
+      return;
+    }
+  }
+
+  writer.uint8(COLOR_STRING);
+  writer.string(color);
+};
+
+const readColor = (reader: ByteReader): string => {
+  const kind = reader.uint8();
+
+  switch (kind) {
+    case COLOR_HEX: {
+      const value = (reader.uint8() << 16) | reader.uint16();
+      return `#${value.toString(16).toUpperCase().padStart(6, '0')}`;
+    }
+    case COLOR_HSL:
+      return formatHsl(reader.float64(), reader.float64(), reader.float64());
+    case COLOR_STRING:
+      return reader.string();
+    default:
+      throw new CodecError(`Unknown color encoding ${kind}`);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Byte-level reading and writing, big endian
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private bytes: Uint8Array = new Uint8Array(64);
+  private view: DataView = new DataView(this.bytes.buffer);
+  private length: number = 0;
+
+  public uint8(value: number): void {
+    this.reserve(1).setUint8(this.length - 1, value);
+  }
+
+  public uint16(value: number): void {
+    this.reserve(2).setUint16(this.length - 2, value);
+  }
+
+  public int16(value: number): void {
+    this.reserve(2).setInt16(this.length - 2, value);
+  }
+
+  public uint32(value: number): void {
+    this.reserve(4).setUint32(this.length - 4, value);
+  }
+
+  public int32(value: number): void {
+    this.reserve(4).setInt32(this.length - 4, value);
+  }
+
+  public float64(value: number): void {
+    this.reserve(8).setFloat64(this.length - 8, value);
+  }
+
+  // UTF-8 with a 16-bit length prefix
+  public string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.uint16(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length - encoded.length);
+  }
+
+  public finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  // Make room for size more bytes and advance past them
+  private reserve(size: number): DataView {
+    if (this.length + size > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size));
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+      this.view = new DataView(grown.buffer);
+    }
+    this.length += size;
+    return this.view;
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  public uint8(): number {
+    return this.view.getUint8(this.advance(1));
+  }
+
+  public uint16(): number {
+    return this.view.getUint16(this.advance(2));
+  }
+
+  public int16(): number {
+    return this.view.getInt16(this.advance(2));
+  }
+
+  public uint32(): number {
+    return this.view.getUint32(this.advance(4));
+  }
+
+  public int32(): number {
+    return this.view.getInt32(this.advance(4));
+  }
+
+  public float64(): number {
+    return this.view.getFloat64(this.advance(8));
+  }
+
+  public string(): string {
+    const length = this.uint16();
+    const start = this.advance(length);
+    return textDecoder.decode(this.bytes.subarray(start, start + length));
+  }
+
+  /**
+   * Return the decoded value, making sure nothing was left over
+   */
+  public done<T>(value: T): T {
+    if (this.offset !== this.bytes.length) {
+      throw new CodecError(`${this.bytes.length - this.offset} unexpected trailing bytes`);
+    }
+    return value;
+  }
+
+  // Offset of the next size bytes, which are then consumed
+  private advance(size: number): number {
+    if (this.offset + size > this.bytes.length) {
+      throw new CodecError('Unexpected end of binary message');
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+}
@@ -0,0 +1,74 @@
+// file: src/utils/chunkSync.ts
+// Seed-based chunk sync. Server and clients generate the same base chunks from the world seed, so only
+// the changes made since are sent, together with a checksum of the result to catch clients that disagree.
+import { ChunkDiff, Tree, Bush, Flower, WorldChunk } from './game';
+
+export const createEmptyDiff = (): ChunkDiff => ({ removed: [], trees: [], bushes: [], flowers: [] });
+
+export const isEmptyDiff = (diff: ChunkDiff): boolean =>
+  diff.removed.length === 0 && diff.trees.length === 0 && diff.bushes.length === 0 && diff.flowers.length === 0;
+
+/**
+ * Apply a diff to a generated chunk. Added elements replace any element with the same id.
+ */
+export const applyChunkDiff = (base: WorldChunk, diff: ChunkDiff | undefined): WorldChunk => {
+  if (!diff || isEmptyDiff(diff)) return base;
+
+  const replaced = new Set([
+    ...diff.removed,
+    ...diff.trees.map(tree => tree.id),
+    ...diff.bushes.map(bush => bush.id),
+    ...diff.flowers.map(flower => flower.id)
+  ]);
+  const keep = <T extends { id: number }>(elements: T[]) => elements.filter(element => !replaced.has(element.id));
+
+  return {
+    ...base,
+    trees: [...keep(base.trees), ...diff.trees],
+    bushes: [...keep(base.bushes), ...diff.bushes],
+    flowers: [...keep(base.flowers), ...diff.flowers]
+  };
+};
+
+/**
+ * Combine two diffs into one with the effect of applying the first, then the second
+ */
+export const mergeChunkDiffs = (first: ChunkDiff, second: ChunkDiff): ChunkDiff => {
+  const merged = applyChunkDiff({ x: 0, y: 0, isLoaded: true, version: 0, ...first }, second);
+  const removed = new Set([...first.removed, ...second.removed]);
+  // Elements added again by the second diff are no longer removed; they are replaced
+  [...second.trees, ...second.bushes, ...second.flowers].forEach(element => removed.delete(element.id));
+
+  return {
+    removed: Array.from(removed),
+    trees: merged.trees,
+    bushes: merged.bushes,
+    flowers: merged.flowers
+  };
+};
+
+/**
+ * 32-bit FNV-1a hash of a chunk's contents. Independent of element order, so chunks built
+ * from the same elements in a different order still match.
+ */
+export const getChunkChecksum = (chunk: WorldChunk): number => {
+  const byId = <T extends { id: number }>(a: T, b: T) => a.id - b.id;
+  const text = [
+    ...[...chunk.trees].sort(byId).map(describeTree),
+    '|',
+    ...[...chunk.bushes].sort(byId).map(describeBush),
+    '|',
+    ...[...chunk.flowers].sort(byId).map(describeFlower)
+  ].join(';');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const describeTree = (tree: Tree) => `${tree.id},${tree.x},${tree.y},${tree.size},${tree.color},${tree.variant}`;
+const describeBush = (bush: Bush) => `${bush.id},${bush.x},${bush.y},${bush.size},${bush.color},${bush.variant}`;
+const describeFlower = (flower: Flower) => `${flower.id},${flower.x},${flower.y},${flower.size ?? ''},${flower.color}`;
@@ -50,8 +50,16 @@ export interface Position {
     chunkSize: number;
     renderDistance: number;
     timeScale: number;
+    // World generation seed: the same seed always produces the same chunks
+    seed: number;
   }
   
+  // World rules set by the server and sent to clients on join (viewport sizes are client-only)
+  export type WorldConfig = Pick<
+    GameConfig,
+    'worldWidth' | 'worldHeight' | 'chunkSize' | 'renderDistance' | 'characterSize' | 'movementSpeed' | 'timeScale' | 'seed'
+  >;
+  
   export interface WorldChunk {
     x: number;
     y: number;
@@ -59,6 +67,17 @@ export interface Position {
     bushes: Bush[];
     flowers: Flower[];
     isLoaded: boolean;
+    // 0 as generated from the seed; the server bumps it every time the chunk changes
+    version: number;
+  }
+  
+  // Changes to a chunk since it was generated from the world seed. Elements keep their ids,
+  // so a changed element is listed in removed and again with its new state.
+  export interface ChunkDiff {
+    removed: number[];
+    trees: Tree[];
+    bushes: Bush[];
+    flowers: Flower[];
   }
   
   // Player types for multiplayer
@@ -71,62 +90,3 @@ export interface Position {
     animationFrame: number;
     lastUpdate: number;
   }
-  
-  // Game event types for multiplayer
-  export enum GameEventType {
-    PLAYER_JOIN = 'player_join',
-    PLAYER_LEAVE = 'player_leave',
-    PLAYER_MOVE = 'player_move',
-    WORLD_SYNC = 'world_sync',
-    CHAT_MESSAGE = 'chat_message'
-  }
-  
-  export interface GameEvent {
-    type: GameEventType;
-    timestamp: number;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    data: any;
-  }
-  
-  export interface PlayerJoinEvent extends GameEvent {
-    type: GameEventType.PLAYER_JOIN;
-    data: {
-      player: Player;
-    };
-  }
-  
-  export interface PlayerLeaveEvent extends GameEvent {
-    type: GameEventType.PLAYER_LEAVE;
-    data: {
-      playerId: string;
-    };
-  }
-  
-  export interface PlayerMoveEvent extends GameEvent {
-    type: GameEventType.PLAYER_MOVE;
-    data: {
-      playerId: string;
-      position: Position;
-      direction: Direction;
-      isMoving: boolean;
-    };
-  }
-  
-  export interface WorldSyncEvent extends GameEvent {
-    type: GameEventType.WORLD_SYNC;
-    data: {
-      chunkX: number;
-      chunkY: number;
-      trees: Tree[];
-      bushes: Bush[];
-      flowers: Flower[];
-    };
-  }
-  
-  export interface ChatMessageEvent extends GameEvent {
-    type: GameEventType.CHAT_MESSAGE;
-    data: {
-      playerId: string;
-      message: string;
-    };
-  }
\ No newline at end of file
@@ -0,0 +1,128 @@
+// file: src/utils/interpolation.ts
+// Snapshot interpolation for remote players. Positions arrive every 50-200ms, so remote players
+// are drawn slightly in the past, between two known snapshots, instead of jumping to each one.
+import { Position, Direction } from './game';
+
+export interface Snapshot {
+  // Server time the position was recorded
+  timestamp: number;
+  position: Position;
+  direction: Direction;
+  isMoving: boolean;
+}
+
+export interface InterpolationConfig {
+  // How far in the past remote players are rendered (ms); should cover a couple of send intervals
+  delay: number;
+  // How long a player keeps moving along its last velocity when snapshots stop arriving (ms)
+  maxExtrapolation: number;
+  // Snapshots kept per player
+  bufferSize: number;
+}
+
+export const DEFAULT_INTERPOLATION_CONFIG: InterpolationConfig = {
+  delay: 200,
+  maxExtrapolation: 250,
+  bufferSize: 20
+};
+
+// Idle players send nothing, so a stopped snapshot followed by a much later one doesn't mean
+// they walked slowly in between: they started moving roughly one send interval before it
+const IDLE_GAP = 250;
+const SEND_INTERVAL = 100;
+
+/**
+ * Time-ordered snapshots of one remote player
+ */
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+  private bufferSize: number;
+
+  constructor(bufferSize: number = DEFAULT_INTERPOLATION_CONFIG.bufferSize) {
+    this.bufferSize = bufferSize;
+  }
+
+  /**
+   * Add a snapshot. Out-of-order snapshots are inserted in place; duplicates are ignored.
+   */
+  public push(snapshot: Snapshot): void {
+    let index = this.snapshots.length;
+    while (index > 0 && this.snapshots[index - 1].timestamp > snapshot.timestamp) {
+      index--;
+    }
+
+    const previous = this.snapshots[index - 1];
+    if (previous && previous.timestamp === snapshot.timestamp) return;
+
+    if (previous && !previous.isMoving && snapshot.timestamp - previous.timestamp > IDLE_GAP) {
+      this.snapshots.splice(index, 0, { ...previous, timestamp: snapshot.timestamp - SEND_INTERVAL });
+      index++;
+    }
+
+    this.snapshots.splice(index, 0, snapshot);
+    while (this.snapshots.length > this.bufferSize) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Get the state at a point in (server) time: interpolated between the surrounding snapshots,
+   * or extrapolated for at most maxExtrapolation past the newest one
+   */
+  public sample(renderTime: number, maxExtrapolation: number): Snapshot | null {
+    const count = this.snapshots.length;
+    if (count === 0) return null;
+
+    const first = this.snapshots[0];
+    if (renderTime <= first.timestamp) return first;
+
+    const last = this.snapshots[count - 1];
+    if (renderTime >= last.timestamp) {
+      return this.extrapolate(renderTime, maxExtrapolation);
+    }
+
+    let index = count - 1;
+    while (this.snapshots[index - 1].timestamp > renderTime) {
+      index--;
+    }
+
+    const from = this.snapshots[index - 1];
+    const to = this.snapshots[index];
+    const t = (renderTime - from.timestamp) / (to.timestamp - from.timestamp);
+
+    return {
+      timestamp: renderTime,
+      position: lerpPosition(from.position, to.position, t),
+      direction: to.direction,
+      isMoving: from.isMoving || to.isMoving
+    };
+  }
+
+  /**
+   * Dead reckoning from the last two snapshots, capped so a lost player doesn't walk off forever
+   */
+  private extrapolate(renderTime: number, maxExtrapolation: number): Snapshot {
+    const last = this.snapshots[this.snapshots.length - 1];
+    const previous = this.snapshots[this.snapshots.length - 2];
+
+    if (!last.isMoving || !previous) return last;
+
+    const interval = last.timestamp - previous.timestamp;
+    if (interval <= 0) return last;
+
+    const elapsed = Math.min(renderTime - last.timestamp, maxExtrapolation);
+    const t = 1 + elapsed / interval;
+
+    return {
+      timestamp: renderTime,
+      position: lerpPosition(previous.position, last.position, t),
+      direction: last.direction,
+      isMoving: true
+    };
+  }
+}
+
+const lerpPosition = (from: Position, to: Position, t: number): Position => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t
+});
@@ -0,0 +1,107 @@
+// file: src/utils/movement.ts
+// Player movement and collision rules shared by the client (prediction, replaying
+// unacknowledged inputs) and the server (validating the positions clients send).
+import { Position, Direction, GameConfig, Hitbox, Tree } from './game';
+
+// Keyboard state for one frame, tagged with the position update that will carry its result
+export interface MovementInput {
+  sequence: number;
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  // Frame duration in ms, already clamped
+  deltaTime: number;
+}
+
+export type MovementConfig = Pick<GameConfig, 'movementSpeed' | 'worldWidth' | 'worldHeight' | 'characterSize'>;
+
+export interface MovementResult {
+  position: Position;
+  // Direction of the last pressed key, or null if no movement key is held
+  direction: Direction | null;
+  isMoving: boolean;
+}
+
+/**
+ * Collision box of a player standing at a position: the feet, smaller than the drawn character
+ */
+export const getPlayerHitbox = (position: Position, characterSize: number): Hitbox => ({
+  left: position.x + 16,
+  right: position.x + characterSize - 16,
+  top: position.y + characterSize / 2,
+  bottom: position.y + characterSize - 8
+});
+
+/**
+ * Collision box of a tree: the bottom of its trunk, so players can walk behind the foliage
+ */
+export const getTreeHitbox = (tree: Tree): Hitbox => ({
+  left: tree.x + (tree.size * 3) / 8,
+  right: tree.x + (tree.size * 5) / 8,
+  top: tree.y + (tree.size * 3) / 4,
+  bottom: tree.y + tree.size
+});
+
+export const hitboxesOverlap = (a: Hitbox, b: Hitbox): boolean =>
+  a.right > b.left && a.left < b.right && a.bottom > b.top && a.top < b.bottom;
+
+/**
+ * Whether a player at a position would hit an obstacle or stick out of the world
+ */
+export const collidesAt = (position: Position, config: MovementConfig, obstacles: Hitbox[]): boolean => {
+  const playerHitbox = getPlayerHitbox(position, config.characterSize);
+
+  if (obstacles.some(obstacle => hitboxesOverlap(playerHitbox, obstacle))) {
+    return true;
+  }
+
+  return (
+    playerHitbox.left < 0 ||
+    playerHitbox.right > config.worldWidth ||
+    playerHitbox.top < 0 ||
+    playerHitbox.bottom > config.worldHeight
+  );
+};
+
+/**
+ * Apply one frame of input to a position. Each axis is blocked separately so the player slides along obstacles.
+ * A player that already overlaps an obstacle (e.g. spawned on a tree) isn't blocked, so it can walk out.
+ */
+export const applyMovementInput = (
+  position: Position,
+  input: MovementInput,
+  config: MovementConfig,
+  collides: (x: number, y: number) => boolean
+): MovementResult => {
+  // Normalize to 60fps for frame-independent movement
+  const frameSpeed = (config.movementSpeed * input.deltaTime) / 16.67;
+  let { x, y } = position;
+  let direction: Direction | null = null;
+
+  const stuck = collides(x, y);
+  const blocked = (testX: number, testY: number) => !stuck && collides(testX, testY);
+
+  if (input.up) {
+    const testY = Math.max(0, y - frameSpeed);
+    if (!blocked(x, testY)) y = testY;
+    direction = 'up';
+  }
+  if (input.down) {
+    const testY = Math.min(config.worldHeight - config.characterSize, y + frameSpeed);
+    if (!blocked(x, testY)) y = testY;
+    direction = 'down';
+  }
+  if (input.left) {
+    const testX = Math.max(0, x - frameSpeed);
+    if (!blocked(testX, y)) x = testX;
+    direction = 'left';
+  }
+  if (input.right) {
+    const testX = Math.min(config.worldWidth - config.characterSize, x + frameSpeed);
+    if (!blocked(testX, y)) x = testX;
+    direction = 'right';
+  }
+
+  return { position: { x, y }, direction, isMoving: direction !== null };
+};
@@ -0,0 +1,672 @@
+// file: src/utils/protocol.ts
+// Wire protocol shared by MultiplayerClient and the game server.
+// Every socket event is described here once, together with a runtime schema
+// so both sides can reject malformed payloads instead of trusting `any`.
+import { Position, Direction, Tree, Bush, Flower, WorldChunk, WorldConfig, ChunkDiff } from './game';
+
+// Bumped on every incompatible protocol change; the server refuses joins from other versions
+export const PROTOCOL_VERSION = 3;
+
+// Optional protocol features a client can declare when joining. The server answers with the ones it enables.
+//   session-resume: resume a dropped session with its resume token
+//   chat-history: receive the chat missed while disconnected after a resume
+//   binary-codec: exchange movement and chunk messages in the compact encoding of binaryCodec.ts
+//   seed-sync: receive chunks as changes to the locally generated chunk (world:chunk-sync) instead of in full
+export type Capability = 'session-resume' | 'chat-history' | 'binary-codec' | 'seed-sync';
+
+export const CAPABILITIES: readonly Capability[] = ['session-resume', 'chat-history', 'binary-codec', 'seed-sync'];
+
+// Player data as sent over the wire
+export interface PlayerState {
+  id: string;
+  username: string;
+  position: Position;
+  direction: Direction;
+  isMoving: boolean;
+  lastUpdate: number;
+  animationFrame?: number;
+}
+
+// Where and facing which way a player appears in a world
+export interface SpawnPoint {
+  position: Position;
+  direction: Direction;
+}
+
+// A world hosted by the server, as listed in the lobby
+export interface WorldInfo {
+  id: string;
+  name: string;
+  description: string;
+  // Players currently in the world, including ones waiting to resume
+  playerCount: number;
+  maxPlayers: number;
+  config: WorldConfig;
+}
+
+// ---------------------------------------------------------------------------
+// Client → server payloads
+// ---------------------------------------------------------------------------
+
+export interface JoinRequest {
+  // Generated by the client and echoed in session:started or join:rejected, so answers to an
+  // earlier attempt (e.g. before a reconnect) aren't mistaken for the current one
+  requestId: string;
+  protocolVersion: number;
+  // Capabilities the server doesn't know are ignored
+  capabilities: string[];
+  // Ignored when joining with an account, which brings its own username
+  username: string;
+  worldId: string;
+  // Token from a previous session:started, to resume that session after a reconnect
+  resumeToken?: string;
+  // Token from account:authenticated; without one the client joins as a guest
+  authToken?: string;
+}
+
+export interface MoveRequest {
+  // Increasing per client; echoed back in move:ack so the client knows which inputs the server has applied
+  sequence: number;
+  position: Position;
+  direction: Direction;
+  isMoving: boolean;
+}
+
+export type ChatRequest = string;
+
+// Clock sync probe; answered with time:pong. Allowed before joining.
+export interface TimePingRequest {
+  clientTime: number;
+}
+
+// Sent before a deliberate disconnect so the server doesn't hold the session open for a resume
+export type LeaveRequest = Record<string, never>;
+
+// Sent periodically so the server can tell an idle player from a dead connection
+export type HeartbeatRequest = Record<string, never>;
+
+export interface ChunkCoordinates {
+  x: number;
+  y: number;
+}
+
+// Chunks the client needs as it moves, answered with world:chunks (or world:chunk-sync for seed-sync clients).
+// Only chunks near the player are answered.
+export interface ChunkRequest {
+  chunks: ChunkCoordinates[];
+}
+
+// Chunks whose checksum didn't match after applying their diff; answered with their full contents in world:chunks
+export interface ChunkResyncRequest {
+  chunks: ChunkCoordinates[];
+}
+
+// Asks for the worlds hosted by the server; answered with worlds:list. Allowed before joining.
+export type WorldListRequest = Record<string, never>;
+
+// Asks for the server's name, message of the day and population; answered with server:status. Allowed before joining.
+export type ServerStatusRequest = Record<string, never>;
+
+// account:register and account:login, answered with account:authenticated. Allowed before joining.
+export interface AccountCredentials {
+  username: string;
+  password: string;
+}
+
+// Exchanges a stored session token for a fresh one (auto-login); answered with account:authenticated
+export interface AccountResumeRequest {
+  token: string;
+}
+
+// Ends a login session; answered with account:logout
+export interface AccountLogoutRequest {
+  token: string;
+}
+
+// ---------------------------------------------------------------------------
+// Server → client payloads
+// ---------------------------------------------------------------------------
+
+// Sent only to the joining client, before player:joined is broadcast
+export interface SessionStartedMessage {
+  requestId: string;
+  playerId: string;
+  // Username the player appears with (an account's registered name, not necessarily the one typed in)
+  username: string;
+  resumeToken: string;
+  // True if an earlier session (same player id and position) was restored
+  resumed: boolean;
+  // The world joined, including the rules the client must play by
+  world: WorldInfo;
+  // Where the player is: where an account's player last left this world, otherwise the world's spawn point
+  spawn: SpawnPoint;
+  // Capabilities from the request that the server enabled
+  capabilities: Capability[];
+}
+
+export type JoinRejectReason =
+  | 'version-mismatch'
+  | 'already-joined'
+  | 'unknown-world'
+  | 'world-full'
+  | 'username-taken'
+  | 'username-reserved'
+  | 'login-expired'
+  | 'already-playing'
+  // The session to resume is gone from the server; join again without the resume token
+  | 'session-expired';
+
+// Answer to a join request that was refused; the connection stays open for another attempt
+export interface JoinRejectedMessage {
+  // Empty when not answering a join: the session was taken over by another client and this connection is closed
+  requestId: string;
+  reason: JoinRejectReason;
+  // Human readable explanation, shown on the login screen
+  message: string;
+  // Version the server speaks, so the client can tell the player which side is outdated
+  protocolVersion: number;
+}
+
+export interface PlayerJoinedMessage {
+  player: PlayerState;
+}
+
+export interface PlayerLeftMessage {
+  playerId: string;
+}
+
+// A player already in the world came within range of the receiving client (chunk-based area of interest)
+export interface PlayerEnteredMessage {
+  player: PlayerState;
+}
+
+// A player moved out of range; the client stops receiving its updates until it comes back
+export interface PlayerExitedMessage {
+  playerId: string;
+}
+
+export interface PlayerMoveMessage {
+  timestamp: number;
+  data: {
+    playerId: string;
+    position: Position;
+    direction: Direction;
+    isMoving: boolean;
+  };
+}
+
+// Sent only to the moving client: the authoritative position after applying a move request
+export interface MoveAckMessage {
+  sequence: number;
+  position: Position;
+  // The server rejected or clamped the requested position (too fast, out of bounds, through a tree)
+  corrected: boolean;
+}
+
+export interface ChatMessage {
+  timestamp: number;
+  data: {
+    playerId: string;
+    username: string;
+    message: string;
+  };
+}
+
+export interface TimePongMessage {
+  // Echoed from the ping, so the client can measure the round trip
+  clientTime: number;
+  serverTime: number;
+}
+
+// Sent periodically to joined clients: proof the server is alive, and which visible players still are
+export interface HeartbeatMessage {
+  timestamp: number;
+  // Visible players whose clients are connected; players missing here may have dropped
+  players: string[];
+}
+
+// Chat messages sent while a resumed client was disconnected
+export interface ChatHistoryMessage {
+  messages: ChatMessage[];
+}
+
+// Answers chunk requests and resyncs; also pushes newer versions of chunks the client already has
+export interface WorldChunksMessage {
+  chunks: WorldChunk[];
+}
+
+// A chunk as the changes to what the client generates from the world seed
+export interface ChunkSync extends ChunkCoordinates {
+  // Left out if the chunk is unchanged
+  diff?: ChunkDiff;
+  // getChunkChecksum of the chunk with the diff applied
+  checksum: number;
+  version: number;
+}
+
+// Sent instead of world:chunks to clients with the seed-sync capability
+export interface WorldChunkSyncMessage {
+  chunks: ChunkSync[];
+}
+
+// Other players within range of the receiving client
+export interface WorldPlayersMessage {
+  players: PlayerState[];
+}
+
+export interface WorldListMessage {
+  worlds: WorldInfo[];
+}
+
+export interface ServerStatusMessage {
+  name: string;
+  // Message of the day
+  motd: string;
+  version: string;
+  // Totals over all worlds
+  playerCount: number;
+  maxPlayers: number;
+}
+
+export interface AccountAuthenticatedMessage {
+  // Stable across sessions; used as the player id whenever the account plays
+  accountId: string;
+  username: string;
+  // Session token to join with and to log in again automatically
+  token: string;
+  // World the account last played in, if it has played on this server before
+  lastWorldId?: string;
+}
+
+export type AccountLoggedOutMessage = Record<string, never>;
+
+export interface ErrorMessage {
+  message: string;
+}
+
+// Event maps in the shape socket.io expects for typed sockets
+export interface ClientToServerEvents {
+  'player:join': (payload: JoinRequest) => void;
+  'player:move': (payload: MoveRequest) => void;
+  'chat:message': (payload: ChatRequest) => void;
+  'player:leave': (payload: LeaveRequest) => void;
+  'time:ping': (payload: TimePingRequest) => void;
+  'heartbeat': (payload: HeartbeatRequest) => void;
+  'world:request-chunks': (payload: ChunkRequest) => void;
+  'world:resync': (payload: ChunkResyncRequest) => void;
+  'worlds:list': (payload: WorldListRequest) => void;
+  'server:status': (payload: ServerStatusRequest) => void;
+  'account:register': (payload: AccountCredentials) => void;
+  'account:login': (payload: AccountCredentials) => void;
+  'account:resume': (payload: AccountResumeRequest) => void;
+  'account:logout': (payload: AccountLogoutRequest) => void;
+}
+
+export interface ServerToClientEvents {
+  'session:started': (payload: SessionStartedMessage) => void;
+  'join:rejected': (payload: JoinRejectedMessage) => void;
+  'player:joined': (payload: PlayerJoinedMessage) => void;
+  'player:left': (payload: PlayerLeftMessage) => void;
+  'player:entered': (payload: PlayerEnteredMessage) => void;
+  'player:exited': (payload: PlayerExitedMessage) => void;
+  'player:move': (payload: PlayerMoveMessage) => void;
+  'move:ack': (payload: MoveAckMessage) => void;
+  'chat:message': (payload: ChatMessage) => void;
+  'chat:history': (payload: ChatHistoryMessage) => void;
+  'world:chunks': (payload: WorldChunksMessage) => void;
+  'world:chunk-sync': (payload: WorldChunkSyncMessage) => void;
+  'world:players': (payload: WorldPlayersMessage) => void;
+  'time:pong': (payload: TimePongMessage) => void;
+  'heartbeat': (payload: HeartbeatMessage) => void;
+  'worlds:list': (payload: WorldListMessage) => void;
+  'server:status': (payload: ServerStatusMessage) => void;
+  'account:authenticated': (payload: AccountAuthenticatedMessage) => void;
+  'account:logout': (payload: AccountLoggedOutMessage) => void;
+  'error': (payload: ErrorMessage) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ServerEventName = keyof ServerToClientEvents;
+export type ClientPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+export type ServerPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+// Frame format for transports without native event support (raw WebSocket, in-memory)
+export interface WireFrame {
+  event: string;
+  payload: unknown;
+}
+
+// Chat messages longer than this are rejected by both sides
+export const MAX_CHAT_LENGTH = 200;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+/**
+ * A schema checks an unknown value and returns an error description, or null if valid.
+ * The type parameter ties the schema to the TypeScript type it describes.
+ */
+export interface Schema<T> {
+  (value: unknown, path: string): string | null;
+  readonly __type?: T;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// trim: surrounding whitespace doesn't count towards min, for values the receiver trims
+const string = (options: { min?: number; max?: number; trim?: boolean } = {}): Schema<string> => (value, path) => {
+  if (typeof value !== 'string') return `${path} must be a string`;
+  const minLength = options.trim ? value.trim().length : value.length;
+  if (options.min !== undefined && minLength < options.min) return `${path} must be at least ${options.min} characters`;
+  if (options.max !== undefined && value.length > options.max) return `${path} must be at most ${options.max} characters`;
+  return null;
+};
+
+const number = (): Schema<number> => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a finite number`;
+
+const boolean = (): Schema<boolean> => (value, path) =>
+  typeof value === 'boolean' ? null : `${path} must be a boolean`;
+
+const oneOf = <T extends string>(options: readonly T[]): Schema<T> => (value, path) =>
+  options.includes(value as T) ? null : `${path} must be one of ${options.join(', ')}`;
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined ? null : schema(value, path);
+
+const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  for (let i = 0; i < value.length; i++) {
+    const error = schema(value[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+  if (!isRecord(value)) return `${path} must be an object`;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const error = shape[key](value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const positionSchema = object<Position>({
+  x: number(),
+  y: number()
+});
+
+const directionSchema = oneOf<Direction>(['up', 'down', 'left', 'right']);
+
+const spawnPointSchema = object<SpawnPoint>({
+  position: positionSchema,
+  direction: directionSchema
+});
+
+const playerStateSchema = object<PlayerState>({
+  id: string({ min: 1 }),
+  username: string({ min: 1 }),
+  position: positionSchema,
+  direction: directionSchema,
+  isMoving: boolean(),
+  lastUpdate: number(),
+  animationFrame: optional(number())
+});
+
+const treeSchema = object<Tree>({
+  id: number(),
+  x: number(),
+  y: number(),
+  size: number(),
+  color: string(),
+  variant: number()
+});
+
+const bushSchema = object<Bush>({
+  id: number(),
+  x: number(),
+  y: number(),
+  size: number(),
+  color: string(),
+  variant: number()
+});
+
+const flowerSchema = object<Flower>({
+  id: number(),
+  x: number(),
+  y: number(),
+  size: optional(number()),
+  color: string()
+});
+
+const worldChunkSchema = object<WorldChunk>({
+  x: number(),
+  y: number(),
+  trees: array(treeSchema),
+  bushes: array(bushSchema),
+  flowers: array(flowerSchema),
+  isLoaded: boolean(),
+  version: number()
+});
+
+const chunkDiffSchema = object<ChunkDiff>({
+  removed: array(number()),
+  trees: array(treeSchema),
+  bushes: array(bushSchema),
+  flowers: array(flowerSchema)
+});
+
+const worldInfoSchema = object<WorldInfo>({
+  id: string({ min: 1 }),
+  name: string({ min: 1 }),
+  description: string(),
+  playerCount: number(),
+  maxPlayers: number(),
+  config: object<WorldConfig>({
+    worldWidth: number(),
+    worldHeight: number(),
+    chunkSize: number(),
+    renderDistance: number(),
+    characterSize: number(),
+    movementSpeed: number(),
+    timeScale: number(),
+    seed: number()
+  })
+});
+
+const capabilitySchema = oneOf<Capability>(CAPABILITIES);
+
+const chunkCoordinatesSchema = object<ChunkCoordinates>({
+  x: number(),
+  y: number()
+});
+
+// Usernames are trimmed by the server, so that is what has to fit the limits
+const usernameSchema = string({ min: 3, max: 16, trim: true });
+
+const accountCredentialsSchema = object<AccountCredentials>({
+  username: usernameSchema,
+  password: string({ min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH })
+});
+
+export const clientMessageSchemas: { [E in ClientEventName]: Schema<ClientPayload<E>> } = {
+  'player:join': object<JoinRequest>({
+    requestId: string({ min: 1, max: 64 }),
+    protocolVersion: number(),
+    capabilities: array(string({ min: 1, max: 32 })),
+    username: usernameSchema,
+    worldId: string({ min: 1, max: 64 }),
+    resumeToken: optional(string({ min: 1, max: 128 })),
+    authToken: optional(string({ min: 1, max: 128 }))
+  }),
+  'player:move': object<MoveRequest>({
+    sequence: number(),
+    position: positionSchema,
+    direction: directionSchema,
+    isMoving: boolean()
+  }),
+  'chat:message': string({ min: 1, max: MAX_CHAT_LENGTH }),
+  'player:leave': object<LeaveRequest>({}),
+  'time:ping': object<TimePingRequest>({
+    clientTime: number()
+  }),
+  'heartbeat': object<HeartbeatRequest>({}),
+  'world:request-chunks': object<ChunkRequest>({
+    chunks: array(chunkCoordinatesSchema)
+  }),
+  'world:resync': object<ChunkResyncRequest>({
+    chunks: array(chunkCoordinatesSchema)
+  }),
+  'worlds:list': object<WorldListRequest>({}),
+  'server:status': object<ServerStatusRequest>({}),
+  'account:register': accountCredentialsSchema,
+  'account:login': accountCredentialsSchema,
+  'account:resume': object<AccountResumeRequest>({
+    token: string({ min: 1, max: 128 })
+  }),
+  'account:logout': object<AccountLogoutRequest>({
+    token: string({ min: 1, max: 128 })
+  })
+};
+
+const chatMessageSchema = object<ChatMessage>({
+  timestamp: number(),
+  data: object<ChatMessage['data']>({
+    playerId: string({ min: 1 }),
+    username: string({ min: 1 }),
+    message: string({ max: MAX_CHAT_LENGTH })
+  })
+});
+
+export const serverMessageSchemas: { [E in ServerEventName]: Schema<ServerPayload<E>> } = {
+  'session:started': object<SessionStartedMessage>({
+    requestId: string({ min: 1 }),
+    playerId: string({ min: 1 }),
+    username: string({ min: 1 }),
+    resumeToken: string({ min: 1 }),
+    resumed: boolean(),
+    world: worldInfoSchema,
+    spawn: spawnPointSchema,
+    capabilities: array(capabilitySchema)
+  }),
+  'join:rejected': object<JoinRejectedMessage>({
+    requestId: string(),
+    reason: oneOf<JoinRejectReason>([
+      'version-mismatch',
+      'already-joined',
+      'unknown-world',
+      'world-full',
+      'username-taken',
+      'username-reserved',
+      'login-expired',
+      'already-playing',
+      'session-expired'
+    ]),
+    message: string(),
+    protocolVersion: number()
+  }),
+  'player:joined': object<PlayerJoinedMessage>({
+    player: playerStateSchema
+  }),
+  'player:left': object<PlayerLeftMessage>({
+    playerId: string({ min: 1 })
+  }),
+  'player:entered': object<PlayerEnteredMessage>({
+    player: playerStateSchema
+  }),
+  'player:exited': object<PlayerExitedMessage>({
+    playerId: string({ min: 1 })
+  }),
+  'player:move': object<PlayerMoveMessage>({
+    timestamp: number(),
+    data: object<PlayerMoveMessage['data']>({
+      playerId: string({ min: 1 }),
+      position: positionSchema,
+      direction: directionSchema,
+      isMoving: boolean()
+    })
+  }),
+  'move:ack': object<MoveAckMessage>({
+    sequence: number(),
+    position: positionSchema,
+    corrected: boolean()
+  }),
+  'chat:message': chatMessageSchema,
+  'chat:history': object<ChatHistoryMessage>({
+    messages: array(chatMessageSchema)
+  }),
+  'world:chunks': object<WorldChunksMessage>({
+    chunks: array(worldChunkSchema)
+  }),
+  'world:chunk-sync': object<WorldChunkSyncMessage>({
+    chunks: array(object<ChunkSync>({
+      x: number(),
+      y: number(),
+      diff: optional(chunkDiffSchema),
+      checksum: number(),
+      version: number()
+    }))
+  }),
+  'world:players': object<WorldPlayersMessage>({
+    players: array(playerStateSchema)
+  }),
+  'time:pong': object<TimePongMessage>({
+    clientTime: number(),
+    serverTime: number()
+  }),
+  'heartbeat': object<HeartbeatMessage>({
+    timestamp: number(),
+    players: array(string({ min: 1 }))
+  }),
+  'worlds:list': object<WorldListMessage>({
+    worlds: array(worldInfoSchema)
+  }),
+  'server:status': object<ServerStatusMessage>({
+    name: string(),
+    motd: string(),
+    version: string(),
+    playerCount: number(),
+    maxPlayers: number()
+  }),
+  'account:authenticated': object<AccountAuthenticatedMessage>({
+    accountId: string({ min: 1 }),
+    username: string({ min: 1 }),
+    token: string({ min: 1 }),
+    lastWorldId: optional(string({ min: 1 }))
+  }),
+  'account:logout': object<AccountLoggedOutMessage>({}),
+  'error': object<ErrorMessage>({
+    message: string()
+  })
+};
+
+/**
+ * Whether an event name received from a client is a protocol event. Only the schema maps' own keys count:
+ * inherited names like "__proto__" must never reach a schema lookup.
+ */
+export const isClientEventName = (event: string): event is ClientEventName =>
+  Object.prototype.hasOwnProperty.call(clientMessageSchemas, event);
+
+/**
+ * Whether an event name received from the server (or a recording) is a protocol event
+ */
+export const isServerEventName = (event: string): event is ServerEventName =>
+  Object.prototype.hasOwnProperty.call(serverMessageSchemas, event);
+
+/**
+ * Validate a payload received by the server. Returns an error description, or null if valid.
+ */
+export const validateClientMessage = (event: ClientEventName, payload: unknown): string | null =>
+  clientMessageSchemas[event](payload, event);
+
+/**
+ * Validate a payload received by the client. Returns an error description, or null if valid.
+ */
+export const validateServerMessage = (event: ServerEventName, payload: unknown): string | null =>
+  serverMessageSchemas[event](payload, event);
@@ -0,0 +1,101 @@
+// file: src/utils/sendPolicy.ts
+// When to send the local player's position. Standing still sends nothing, starting, stopping and
+// turning go out right away, and while walking the rate follows the speed and the connection.
+import { Position, Direction } from './game';
+
+export interface SendPolicyConfig {
+  // Fastest and slowest rate while walking (ms between updates)
+  minInterval: number;
+  maxInterval: number;
+  // How far we should get between two updates (px); faster movement sends more often
+  targetDistance: number;
+  // Smaller position changes are not worth an update (px)
+  minDistance: number;
+  // Above the first round trip (ms) updates are spread out, up to twice as far apart at the second
+  congestedRoundTrip: [number, number];
+}
+
+export const DEFAULT_SEND_POLICY_CONFIG: SendPolicyConfig = {
+  minInterval: 50,
+  maxInterval: 200,
+  targetDistance: 16,
+  minDistance: 0.5,
+  congestedRoundTrip: [150, 500]
+};
+
+// Everything the server needs about our movement, always sent together in one message
+export interface PositionUpdate {
+  position: Position;
+  direction: Direction;
+  isMoving: boolean;
+}
+
+// Weight of the newest sample in the smoothed speed
+const SPEED_SMOOTHING = 0.3;
+
+export class PositionSendPolicy {
+  private config: SendPolicyConfig;
+  private lastSent: PositionUpdate | null = null;
+  private lastSentAt: number = 0;
+  // Smoothed walking speed between the last updates (px/ms)
+  private speed: number = 0;
+
+  constructor(config: Partial<SendPolicyConfig> = {}) {
+    this.config = { ...DEFAULT_SEND_POLICY_CONFIG, ...config };
+  }
+
+  /**
+   * How long to wait before sending an update: 0 to send it now, null if there is nothing worth sending.
+   * roundTripTime is the current estimate (ms), 0 if unknown.
+   */
+  public getDelay(update: PositionUpdate, now: number, roundTripTime: number): number | null {
+    const last = this.lastSent;
+    if (!last) return 0;
+
+    // Starting, stopping and turning change how others extrapolate us, so they can't wait.
+    // This is also what guarantees the final stopped position is always sent.
+    if (update.isMoving !== last.isMoving || update.direction !== last.direction) return 0;
+
+    if (getDistance(update.position, last.position) < this.config.minDistance) return null;
+
+    return Math.max(0, this.lastSentAt + this.getInterval(roundTripTime) - now);
+  }
+
+  /**
+   * Record an update that was sent
+   */
+  public markSent(update: PositionUpdate, now: number): void {
+    if (this.lastSent?.isMoving && update.isMoving && now > this.lastSentAt) {
+      const speed = getDistance(update.position, this.lastSent.position) / (now - this.lastSentAt);
+      this.speed = this.speed ? this.speed + (speed - this.speed) * SPEED_SMOOTHING : speed;
+    } else if (!update.isMoving) {
+      this.speed = 0;
+    }
+
+    this.lastSent = update;
+    this.lastSentAt = now;
+  }
+
+  /**
+   * Forget what was sent, e.g. for a new session
+   */
+  public reset(): void {
+    this.lastSent = null;
+    this.lastSentAt = 0;
+    this.speed = 0;
+  }
+
+  /**
+   * Time between updates while walking at the current speed over the current connection
+   */
+  public getInterval(roundTripTime: number): number {
+    const { minInterval, maxInterval, targetDistance, congestedRoundTrip: [congestionStart, congestionFull] } = this.config;
+
+    const interval = this.speed > 0 ? targetDistance / this.speed : maxInterval;
+    const congestion = Math.min(1, Math.max(0, (roundTripTime - congestionStart) / (congestionFull - congestionStart)));
+
+    return Math.min(maxInterval, Math.max(minInterval, interval * (1 + congestion)));
+  }
+}
+
+const getDistance = (a: Position, b: Position): number => Math.hypot(a.x - b.x, a.y - b.y);
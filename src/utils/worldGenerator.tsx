@@ -1,11 +1,15 @@
 // file: src/utils/worldGenerator.ts
 
-import { Tree, Bush, Flower, WorldElement }  from "./game";
+import { Tree, Bush, Flower, WorldElement, WorldChunk }  from "./game";
 
-// Global ID counters to ensure uniqueness
-let nextTreeId = 1000000;
-let nextBushId = 2000000;
-let nextFlowerId = 3000000;
+// Element ids are derived from the chunk, so every client and the server agree on them.
+// Each chunk gets a block of ids with room for ELEMENTS_PER_KIND trees, bushes and flowers.
+const ELEMENTS_PER_KIND = 256;
+const MAX_CHUNKS_PER_ROW = 1024;
+
+// First id of a chunk's block; trees, bushes and flowers follow each other in it
+export const getChunkIdBase = (chunkX: number, chunkY: number): number =>
+  (chunkY * MAX_CHUNKS_PER_ROW + chunkX) * 3 * ELEMENTS_PER_KIND;
 
 // Seeded random generator for deterministic world generation
 const createSeededRandom = (seed: number) => {
@@ -49,7 +53,8 @@ export const generateTrees = (
   chunkY: number,
   chunkSize: number,
   count: number,
-  seed: number
+  seed: number,
+  firstId: number
 ): Tree[] => {
   const random = createSeededRandom(seed);
   const trees: Tree[] = [];
@@ -73,7 +78,7 @@ export const generateTrees = (
     
     if (validPosition) {
       trees.push({
-        id: nextTreeId++, // Use global counter for unique IDs
+        id: firstId + trees.length,
         x,
         y,
         size,
@@ -93,6 +98,7 @@ export const generateBushes = (
   chunkSize: number,
   count: number,
   seed: number,
+  firstId: number,
   existingElements: WorldElement[] = []
 ): Bush[] => {
   const random = createSeededRandom(seed);
@@ -117,7 +123,7 @@ export const generateBushes = (
     
     if (validPosition) {
       bushes.push({
-        id: nextBushId++, // Use global counter for unique IDs
+        id: firstId + bushes.length,
         x,
         y,
         size,
@@ -137,6 +143,7 @@ export const generateFlowers = (
   chunkSize: number,
   count: number,
   seed: number,
+  firstId: number,
   existingElements: WorldElement[] = []
 ): Flower[] => {
   const random = createSeededRandom(seed);
@@ -178,7 +185,7 @@ export const generateFlowers = (
     
     if (validPosition) {
       flowers.push({
-        id: nextFlowerId++, // Use global counter for unique IDs
+        id: firstId + flowers.length,
         x,
         y,
         color
@@ -187,4 +194,55 @@ export const generateFlowers = (
   }
   
   return flowers;
+};
+
+// Generate the full contents of a chunk from its coordinates and the world seed
+export const generateChunk = (chunkX: number, chunkY: number, chunkSize: number, worldSeed: number = 0): WorldChunk => {
+  const chunkOriginX = chunkX * chunkSize;
+  const chunkOriginY = chunkY * chunkSize;
+  
+  // Use seeded random based on chunk coordinates for consistent generation.
+  // The world seed is scaled by a large prime so chunks of different worlds don't line up.
+  const chunkSeed = chunkX * 10000 + chunkY + worldSeed * 1000003;
+  const idBase = getChunkIdBase(chunkX, chunkY);
+  
+  // Generate environment elements for this chunk
+  const trees = generateTrees(
+    chunkOriginX, 
+    chunkOriginY,
+    chunkSize,
+    5 + Math.floor((Math.sin(chunkSeed) + 1) * 5), // 5-15 trees per chunk
+    chunkSeed,
+    idBase
+  );
+  
+  const bushes = generateBushes(
+    chunkOriginX,
+    chunkOriginY,
+    chunkSize,
+    8 + Math.floor((Math.cos(chunkSeed) + 1) * 7), // 8-22 bushes per chunk
+    chunkSeed + 1,
+    idBase + ELEMENTS_PER_KIND,
+    trees // Avoid placing bushes on trees
+  );
+  
+  const flowers = generateFlowers(
+    chunkOriginX,
+    chunkOriginY,
+    chunkSize,
+    15 + Math.floor((Math.sin(chunkSeed * 0.1) + 1) * 10), // 15-35 flowers per chunk
+    chunkSeed + 2,
+    idBase + 2 * ELEMENTS_PER_KIND,
+    [...trees, ...bushes] // Avoid placing flowers on trees or bushes
+  );
+  
+  return {
+    x: chunkX,
+    y: chunkY,
+    trees,
+    bushes,
+    flowers,
+    isLoaded: true,
+    version: 0
+  };
 };
\ No newline at end of file